@@ -0,0 +1,126 @@
+import type { RateLimitInfo } from "./claude-process.js";
+
+type Logger = {
+  info: (msg: string) => void;
+  warn: (msg: string) => void;
+  error: (msg: string) => void;
+};
+
+/** One login of a CLI: a logged-in config directory (for Claude, `CLAUDE_CONFIG_DIR`). */
+export type CliAccount = {
+  name: string;
+  configDir: string;
+};
+
+/** What the bridge has seen of an account, for `/status` and the HUD. */
+export type AccountStatus = {
+  name: string;
+  configDir: string;
+  /** Last reported windows, keyed by type ("five_hour", "seven_day", ...). */
+  rateLimits: Record<string, RateLimitInfo>;
+  /** Cost of the turns run on it since the bridge started. */
+  costUsd: number;
+  /** Cost within the current five-hour window. */
+  windowCostUsd: number;
+  turns: number;
+  /** Live sessions pinned to it. */
+  sessions: number;
+};
+
+type AccountState = {
+  account: CliAccount;
+  rateLimits: Map<string, RateLimitInfo>;
+  costUsd: number;
+  windowCostUsd: number;
+  windowResetsAt: number;
+  turns: number;
+};
+
+/** Utilization of a window that has not reset yet (0 once it has, or when not reported). */
+function windowLoad(rl: RateLimitInfo, now: number): number {
+  if (rl.resetsAt && rl.resetsAt * 1000 <= now) return 0;
+  if (rl.status === "rejected") return Number.POSITIVE_INFINITY;
+  return rl.utilization ?? 0;
+}
+
+/**
+ * Logins of a backend that sessions are spread across. New sessions go to the
+ * least-utilized account; a session stays on its account for good, since
+ * the CLI keeps transcripts (and so `--resume`) per config directory.
+ */
+export class AccountPool {
+  private accounts = new Map<string, AccountState>();
+  private logger: Logger;
+
+  constructor(accounts: CliAccount[], logger: Logger) {
+    this.logger = logger;
+    for (const account of accounts) {
+      if (this.accounts.has(account.name)) {
+        throw new Error(`Account "${account.name}" is configured twice`);
+      }
+      this.accounts.set(account.name, {
+        account,
+        rateLimits: new Map(),
+        costUsd: 0,
+        windowCostUsd: 0,
+        windowResetsAt: 0,
+        turns: 0,
+      });
+    }
+  }
+
+  get(name: string | undefined): CliAccount | undefined {
+    return name ? this.accounts.get(name)?.account : undefined;
+  }
+
+  /**
+   * Account for a new session: the lowest peak utilization over its windows,
+   * then the fewest live sessions, then the least spent this window.
+   */
+  pick(liveSessions: (name: string) => number): CliAccount {
+    const now = Date.now();
+    const ranked = [...this.accounts.values()]
+      .map((state) => ({
+        state,
+        load: Math.max(0, ...[...state.rateLimits.values()].map((rl) => windowLoad(rl, now))),
+        sessions: liveSessions(state.account.name),
+      }))
+      .sort((a, b) => a.load - b.load || a.sessions - b.sessions || a.state.windowCostUsd - b.state.windowCostUsd);
+    const best = ranked[0];
+    if (best.load === Number.POSITIVE_INFINITY) {
+      this.logger.warn(`account-pool: every account is rate-limited, using ${best.state.account.name}`);
+    }
+    return best.state.account;
+  }
+
+  /** Fold a turn's rate-limit windows and cost into its account. */
+  record(name: string, rateLimits: Map<string, RateLimitInfo> | undefined, costUsd: number | undefined): void {
+    const state = this.accounts.get(name);
+    if (!state) return;
+    for (const [type, rl] of rateLimits ?? []) {
+      state.rateLimits.set(type, { ...rl });
+      // New five-hour window → restart its cost
+      if (type === "five_hour" && rl.resetsAt && rl.resetsAt !== state.windowResetsAt) {
+        state.windowResetsAt = rl.resetsAt;
+        state.windowCostUsd = 0;
+      }
+    }
+    if (costUsd !== undefined) {
+      state.costUsd += costUsd;
+      state.windowCostUsd += costUsd;
+      state.turns++;
+    }
+  }
+
+  list(liveSessions: (name: string) => number): AccountStatus[] {
+    return [...this.accounts.values()].map((state) => ({
+      name: state.account.name,
+      configDir: state.account.configDir,
+      rateLimits: Object.fromEntries(state.rateLimits),
+      costUsd: state.costUsd,
+      windowCostUsd: state.windowCostUsd,
+      turns: state.turns,
+      sessions: liveSessions(state.account.name),
+    }));
+  }
+}
@@ -0,0 +1,248 @@
+import type { ServerResponse } from "node:http";
+import type { TurnUsage } from "./claude-process.js";
+
+type ContentBlock =
+  | { type: "text"; text: string }
+  | { type: "thinking"; thinking: string; signature: string }
+  | { type: "redacted_thinking"; data: string };
+
+export type AnthropicUsage = {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+};
+
+/** Block types forwarded to the client; the CLI's own tool_use blocks stay internal. */
+const FORWARDED_BLOCKS = new Set(["text", "thinking", "redacted_thinking"]);
+
+export function anthropicError(type: string, message: string): Record<string, unknown> {
+  return { type: "error", error: { type, message } };
+}
+
+export function toAnthropicUsage(usage: TurnUsage | undefined): AnthropicUsage {
+  if (!usage) return { input_tokens: 0, output_tokens: 0 };
+  return {
+    input_tokens: usage.input_tokens,
+    output_tokens: usage.output_tokens,
+    cache_read_input_tokens: usage.cache_read_input_tokens,
+    cache_creation_input_tokens: usage.cache_creation_input_tokens,
+  };
+}
+
+/**
+ * The request's `system` field as one prompt: a string, or text blocks joined
+ * by blank lines. Undefined when absent or empty, null when malformed.
+ */
+export function parseSystemPrompt(system: unknown): string | undefined | null {
+  if (system === undefined || system === null) return undefined;
+  if (typeof system === "string") return system || undefined;
+  if (!Array.isArray(system)) return null;
+  const texts: string[] = [];
+  for (const block of system) {
+    const b = block as { type?: unknown; text?: unknown } | null;
+    if (b?.type !== "text" || typeof b.text !== "string") return null;
+    texts.push(b.text);
+  }
+  return texts.join("\n\n") || undefined;
+}
+
+export function sseEvent(res: ServerResponse, type: string, data: Record<string, unknown>): void {
+  res.write(`event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`);
+}
+
+/**
+ * Folds one CLI turn — which may span several API calls — into a single
+ * Anthropic Messages API response.
+ *
+ * Claude sessions feed the raw stream events the CLI already emits; text and
+ * thinking blocks are re-indexed and forwarded, tool_use blocks are dropped.
+ * Backends without stream events feed prose through `text()` instead.
+ * When `res` is given the message is streamed as SSE while it is built.
+ */
+export class AnthropicMessageBuilder {
+  readonly id = `msg_bridge_${Date.now().toString(36)}`;
+  private model: string;
+  private res: ServerResponse | null;
+  private blocks: ContentBlock[] = [];
+  /** Upstream block index → our index, for the current upstream API message. */
+  private indexMap = new Map<number, number>();
+  private openTextIndex: number | null = null;
+  /** Our indices of forwarded upstream blocks that started but have not stopped yet. */
+  private openUpstream = new Set<number>();
+  /** Prose appended while an upstream block was open; written once it closes. */
+  private pendingProse: string[] = [];
+  private sawStreamEvents = false;
+  private stopReason: string | null = null;
+
+  constructor(model: string, res?: ServerResponse) {
+    this.model = model;
+    this.res = res ?? null;
+  }
+
+  /** Emit `message_start`; call once before any content. */
+  start(): void {
+    if (!this.res) return;
+    sseEvent(this.res, "message_start", {
+      message: {
+        id: this.id,
+        type: "message",
+        role: "assistant",
+        model: this.model,
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: 0, output_tokens: 0 },
+      },
+    });
+  }
+
+  streamEvent(event: Record<string, unknown>): void {
+    this.sawStreamEvents = true;
+    const upstreamIndex = typeof event.index === "number" ? event.index : -1;
+
+    switch (event.type) {
+      case "message_start":
+        this.indexMap.clear();
+        break;
+
+      case "content_block_start": {
+        const block = event.content_block as Record<string, unknown> | undefined;
+        if (!block || !FORWARDED_BLOCKS.has(String(block.type))) break;
+        this.closeOpenText();
+        const index = this.blocks.length;
+        this.indexMap.set(upstreamIndex, index);
+        if (block.type === "text") this.blocks.push({ type: "text", text: "" });
+        else if (block.type === "thinking") this.blocks.push({ type: "thinking", thinking: "", signature: "" });
+        else this.blocks.push({ type: "redacted_thinking", data: String(block.data ?? "") });
+        this.write("content_block_start", { index, content_block: this.blocks[index] });
+        this.openUpstream.add(index);
+        break;
+      }
+
+      case "content_block_delta": {
+        const index = this.indexMap.get(upstreamIndex);
+        const delta = event.delta as Record<string, unknown> | undefined;
+        if (index === undefined || !delta) break;
+        const block = this.blocks[index];
+        if (delta.type === "text_delta" && block.type === "text") {
+          block.text += String(delta.text ?? "");
+        } else if (delta.type === "thinking_delta" && block.type === "thinking") {
+          block.thinking += String(delta.thinking ?? "");
+        } else if (delta.type === "signature_delta" && block.type === "thinking") {
+          block.signature = String(delta.signature ?? "");
+        } else {
+          break;
+        }
+        this.write("content_block_delta", { index, delta });
+        break;
+      }
+
+      case "content_block_stop": {
+        const index = this.indexMap.get(upstreamIndex);
+        if (index === undefined || !this.openUpstream.delete(index)) break;
+        this.write("content_block_stop", { index });
+        if (this.openUpstream.size === 0) this.flushProse();
+        break;
+      }
+
+      case "message_delta": {
+        const delta = event.delta as Record<string, unknown> | undefined;
+        if (typeof delta?.stop_reason === "string") this.stopReason = delta.stop_reason;
+        break;
+      }
+
+      default:
+        break;
+    }
+  }
+
+  /** Prose from backends without stream events (ignored once stream events were seen). */
+  text(delta: string): void {
+    if (this.sawStreamEvents || !delta) return;
+    this.appendText(delta);
+  }
+
+  /**
+   * Append prose in a block of its own, e.g. uploaded image links after the
+   * turn or notices mid-turn. While an upstream block is open the prose waits
+   * for it to close, so blocks never interleave.
+   */
+  appendText(text: string): void {
+    if (this.openUpstream.size > 0) {
+      this.pendingProse.push(text);
+      return;
+    }
+    this.writeProse(text);
+  }
+
+  /** Stop reason of the final API call; intermediate `tool_use` stops are internal to the CLI. */
+  getStopReason(): string {
+    return this.stopReason && this.stopReason !== "tool_use" ? this.stopReason : "end_turn";
+  }
+
+  /** Emit `message_delta` + `message_stop` and end the stream. */
+  finish(usage: AnthropicUsage, extra?: Record<string, unknown>): void {
+    this.settle();
+    if (!this.res) return;
+    sseEvent(this.res, "message_delta", {
+      delta: { stop_reason: this.getStopReason(), stop_sequence: null },
+      usage,
+      ...extra,
+    });
+    sseEvent(this.res, "message_stop", {});
+    this.res.end();
+  }
+
+  /** Full (non-streaming) message body. */
+  toMessage(usage: AnthropicUsage, extra?: Record<string, unknown>): Record<string, unknown> {
+    this.settle();
+    return {
+      id: this.id,
+      type: "message",
+      role: "assistant",
+      model: this.model,
+      content: this.blocks,
+      stop_reason: this.getStopReason(),
+      stop_sequence: null,
+      usage,
+      ...extra,
+    };
+  }
+
+  private writeProse(text: string): void {
+    if (this.openTextIndex === null || this.sawStreamEvents) {
+      this.closeOpenText();
+      this.openTextIndex = this.blocks.length;
+      this.blocks.push({ type: "text", text: "" });
+      this.write("content_block_start", { index: this.openTextIndex, content_block: { type: "text", text: "" } });
+    }
+    (this.blocks[this.openTextIndex] as { text: string }).text += text;
+    this.write("content_block_delta", { index: this.openTextIndex, delta: { type: "text_delta", text } });
+    if (this.sawStreamEvents) this.closeOpenText();
+  }
+
+  private flushProse(): void {
+    const pending = this.pendingProse;
+    this.pendingProse = [];
+    for (const text of pending) this.writeProse(text);
+  }
+
+  /** End of the message: close blocks an aborted turn left open, then write the held-back prose. */
+  private settle(): void {
+    for (const index of this.openUpstream) this.write("content_block_stop", { index });
+    this.openUpstream.clear();
+    this.flushProse();
+    this.closeOpenText();
+  }
+
+  private closeOpenText(): void {
+    if (this.openTextIndex === null) return;
+    this.write("content_block_stop", { index: this.openTextIndex });
+    this.openTextIndex = null;
+  }
+
+  private write(type: string, data: Record<string, unknown>): void {
+    if (this.res && !this.res.writableEnded) sseEvent(this.res, type, data);
+  }
+}
@@ -0,0 +1,85 @@
+import { createHash } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+
+/** A configured bridge API key. Only the SHA-256 hash of the secret is stored. */
+export type ApiKeyEntry = {
+  /** Identity recorded in the request log. */
+  name: string;
+  /** `sha256:<hex>` (or bare hex) of the key. */
+  hash: string;
+  /** Agents (session keys) the key may drive; omitted = all. */
+  agents?: string[];
+  /** Model IDs the key may request; `*` suffix matches a prefix. Omitted = all. */
+  models?: string[];
+};
+
+export type AuthResult =
+  | { ok: true; key: ApiKeyEntry | null }
+  | { ok: false; message: string };
+
+export function hashApiKey(key: string): string {
+  return `sha256:${createHash("sha256").update(key).digest("hex")}`;
+}
+
+function normalizeHash(hash: string): string {
+  const hex = hash.trim().toLowerCase().replace(/^sha256:/, "");
+  return `sha256:${hex}`;
+}
+
+function matchesModel(patterns: string[], model: string): boolean {
+  return patterns.some((p) => (p.endsWith("*") ? model.startsWith(p.slice(0, -1)) : p === model));
+}
+
+/**
+ * Bearer-key authentication for the bridge. With no keys configured every
+ * request is let through (key = null), matching the original open bridge.
+ */
+export class ApiKeyAuth {
+  private byHash = new Map<string, ApiKeyEntry>();
+
+  constructor(keys: ApiKeyEntry[] = []) {
+    for (const key of keys) this.byHash.set(normalizeHash(key.hash), key);
+  }
+
+  get enabled(): boolean {
+    return this.byHash.size > 0;
+  }
+
+  /** Identify the caller from `Authorization: Bearer` (OpenAI) or `x-api-key` (Anthropic). */
+  authenticate(req: IncomingMessage): AuthResult {
+    if (!this.enabled) return { ok: true, key: null };
+
+    const header = req.headers.authorization;
+    const bearer = header?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const apiKey = req.headers["x-api-key"];
+    const presented = bearer ?? (typeof apiKey === "string" ? apiKey : undefined);
+    if (!presented) return { ok: false, message: "Missing API key" };
+
+    const key = this.byHash.get(hashApiKey(presented.trim()));
+    if (!key) return { ok: false, message: "Invalid API key" };
+    return { ok: true, key };
+  }
+
+  allowsModel(key: ApiKeyEntry | null, model: string): boolean {
+    return !key?.models || matchesModel(key.models, model);
+  }
+
+  /** Check a key's agent scope. Returns an error message, or null when allowed. */
+  authorizeAgent(key: ApiKeyEntry | null, agent: string): string | null {
+    if (key?.agents && !key.agents.some((a) => a.toLowerCase() === agent.toLowerCase())) {
+      return `API key "${key.name}" is not allowed to use agent "${agent}"`;
+    }
+    return null;
+  }
+
+  /** Check a key's agent and model scope. Returns an error message, or null when allowed. */
+  authorize(key: ApiKeyEntry | null, agent: string, model: string): string | null {
+    if (!key) return null;
+    const agentDenied = this.authorizeAgent(key, agent);
+    if (agentDenied) return agentDenied;
+    if (!this.allowsModel(key, model)) {
+      return `API key "${key.name}" is not allowed to use model "${model}"`;
+    }
+    return null;
+  }
+}
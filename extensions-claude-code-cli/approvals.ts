@@ -0,0 +1,187 @@
+import { randomBytes } from "node:crypto";
+import { preview } from "./progress-events.js";
+
+type Logger = {
+  info: (msg: string) => void;
+  warn: (msg: string) => void;
+};
+
+/** A tool call the CLI wants to run and is asking permission for (`can_use_tool`). */
+export type PermissionRequest = {
+  toolName: string;
+  input: Record<string, unknown>;
+  toolUseId?: string;
+  /** Path outside the allowed directories that triggered the prompt. */
+  blockedPath?: string;
+};
+
+export type PermissionDecision =
+  | { behavior: "allow"; updatedInput: Record<string, unknown> }
+  | { behavior: "deny"; message: string };
+
+export type PendingApproval = {
+  /** Short ID for `/approve <id>` when several requests are open. */
+  id: string;
+  agent: string;
+  toolName: string;
+  /** One-line rendering of the tool input. */
+  summary: string;
+  blockedPath?: string;
+  createdAt: number;
+  expiresAt: number;
+};
+
+export type ApprovalOutcome = "approved" | "denied" | "expired" | "cancelled";
+
+export type ApprovalEvent =
+  | { type: "requested"; approval: PendingApproval }
+  | { type: "resolved"; approval: PendingApproval; outcome: ApprovalOutcome; always?: boolean; reason?: string };
+
+export const DEFAULT_APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
+
+type Entry = PendingApproval & {
+  input: Record<string, unknown>;
+  resolve: (decision: PermissionDecision) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+/** The part of a tool input a human needs to judge it. */
+function summarizeInput(toolName: string, input: Record<string, unknown>): string {
+  if (typeof input.command === "string") return preview(input.command) ?? "";
+  if (typeof input.file_path === "string") return input.file_path;
+  if (typeof input.path === "string") return input.path;
+  if (typeof input.url === "string") return input.url;
+  return preview(input) ?? toolName;
+}
+
+/** Chat prompt asking the user to approve or deny a request. */
+export function formatApprovalPrompt(approval: PendingApproval): string {
+  const target = approval.blockedPath && approval.blockedPath !== approval.summary
+    ? `${approval.summary} (outside the working directory: ${approval.blockedPath})`
+    : approval.summary;
+  const minutes = Math.max(1, Math.round((approval.expiresAt - approval.createdAt) / 60_000));
+  return [
+    `🔐 Permission needed [${approval.id}]: ${approval.toolName}${target ? ` — \`${target}\`` : ""}`,
+    `Reply /approve, /approve always, or /deny [reason] (expires in ${minutes} min).`,
+  ].join("\n");
+}
+
+/**
+ * Permission prompts from Claude sessions waiting on the chat user.
+ *
+ * Each request stays open until `/approve` / `/deny` resolves it or it
+ * times out (denied). "Always" approvals are remembered per agent and tool
+ * for the lifetime of the bridge.
+ */
+export class ApprovalManager {
+  private pending = new Map<string, Entry>();
+  private alwaysAllow = new Map<string, Set<string>>();
+  private listeners: Array<(event: ApprovalEvent) => void> = [];
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  onEvent(listener: (event: ApprovalEvent) => void): void {
+    this.listeners.push(listener);
+  }
+
+  request(agent: string, req: PermissionRequest, timeoutMs = DEFAULT_APPROVAL_TIMEOUT_MS): Promise<PermissionDecision> {
+    if (this.alwaysAllow.get(agent)?.has(req.toolName)) {
+      this.logger.info(`approvals: ${agent} ${req.toolName} allowed (always)`);
+      return Promise.resolve({ behavior: "allow", updatedInput: req.input });
+    }
+
+    return new Promise((resolve) => {
+      const now = Date.now();
+      const id = randomBytes(3).toString("hex");
+      const entry: Entry = {
+        id,
+        agent,
+        toolName: req.toolName,
+        summary: summarizeInput(req.toolName, req.input),
+        blockedPath: req.blockedPath,
+        createdAt: now,
+        expiresAt: now + timeoutMs,
+        input: req.input,
+        resolve,
+        timer: setTimeout(() => {
+          this.finish(entry, "expired", { behavior: "deny", message: "Permission request timed out without a reply" });
+        }, timeoutMs),
+      };
+      this.pending.set(id, entry);
+      this.logger.info(`approvals: ${agent} requests ${req.toolName} [${id}] ${entry.summary.slice(0, 80)}`);
+      this.emit({ type: "requested", approval: this.toPublic(entry) });
+    });
+  }
+
+  /** Open requests of an agent, oldest first. */
+  listPending(agent: string): PendingApproval[] {
+    return [...this.pending.values()].filter((e) => e.agent === agent).map((e) => this.toPublic(e));
+  }
+
+  /** Approve a request (the oldest when no ID is given). Returns it, or null if none matched. */
+  approve(agent: string, id?: string, always = false): PendingApproval | null {
+    const entry = this.find(agent, id);
+    if (!entry) return null;
+    if (always) {
+      const tools = this.alwaysAllow.get(agent) ?? new Set<string>();
+      tools.add(entry.toolName);
+      this.alwaysAllow.set(agent, tools);
+    }
+    this.finish(entry, "approved", { behavior: "allow", updatedInput: entry.input }, { always });
+    return this.toPublic(entry);
+  }
+
+  deny(agent: string, id?: string, reason?: string): PendingApproval | null {
+    const entry = this.find(agent, id);
+    if (!entry) return null;
+    const message = reason ? `The user denied this: ${reason}` : "The user denied this tool call";
+    this.finish(entry, "denied", { behavior: "deny", message }, { reason });
+    return this.toPublic(entry);
+  }
+
+  /** Deny everything an agent has open, e.g. when its turn is stopped or its session destroyed. */
+  cancelAll(agent: string, reason: string): void {
+    for (const entry of [...this.pending.values()]) {
+      if (entry.agent === agent) this.finish(entry, "cancelled", { behavior: "deny", message: reason }, { reason });
+    }
+  }
+
+  private find(agent: string, id?: string): Entry | undefined {
+    if (id) {
+      const entry = this.pending.get(id.toLowerCase());
+      return entry?.agent === agent ? entry : undefined;
+    }
+    return [...this.pending.values()].find((e) => e.agent === agent);
+  }
+
+  private finish(
+    entry: Entry,
+    outcome: ApprovalOutcome,
+    decision: PermissionDecision,
+    extra: { always?: boolean; reason?: string } = {},
+  ): void {
+    if (!this.pending.delete(entry.id)) return;
+    clearTimeout(entry.timer);
+    this.logger.info(`approvals: ${entry.agent} ${entry.toolName} [${entry.id}] ${outcome}${extra.always ? " (always)" : ""}`);
+    entry.resolve(decision);
+    this.emit({ type: "resolved", approval: this.toPublic(entry), outcome, ...extra });
+  }
+
+  private toPublic(entry: Entry): PendingApproval {
+    const { id, agent, toolName, summary, blockedPath, createdAt, expiresAt } = entry;
+    return { id, agent, toolName, summary, blockedPath, createdAt, expiresAt };
+  }
+
+  private emit(event: ApprovalEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (err) {
+        this.logger.warn(`approvals: listener failed: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+  }
+}
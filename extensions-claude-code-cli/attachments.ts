@@ -0,0 +1,219 @@
+import { mkdir, readdir, rm, stat, writeFile } from "node:fs/promises";
+import { basename, extname, join } from "node:path";
+import { randomBytes } from "node:crypto";
+
+type Logger = {
+  info: (msg: string) => void;
+  warn: (msg: string) => void;
+};
+
+/** An image or file from a chat message, written to the session's working directory. */
+export type Attachment = {
+  kind: "image" | "file";
+  mediaType: string;
+  /** Original file name, when the client sent one. */
+  name?: string;
+  data: Buffer;
+  /** Absolute path of the materialized copy. */
+  path: string;
+};
+
+/** Where an attachment's bytes come from, before loading. */
+type AttachmentRef =
+  | { kind: "image" | "file"; source: "data"; mediaType: string; data: Buffer; name?: string }
+  | { kind: "image" | "file"; source: "url"; url: string; mediaType?: string; name?: string };
+
+/** Directory (relative to the session cwd) attachments are written to. */
+const ATTACHMENT_DIR = ".openclaw/attachments";
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+const MAX_ATTACHMENTS = 10;
+const FETCH_TIMEOUT_MS = 30_000;
+/** Saved attachments older than this are deleted the next time a message brings new ones. */
+const MAX_ATTACHMENT_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+/** Newest saved attachments kept per directory; older ones are deleted. */
+const MAX_KEPT_ATTACHMENTS = 200;
+
+/** Image types the Anthropic API accepts inline; anything else is passed on as a file. */
+export const INLINE_IMAGE_TYPES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp"]);
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "application/pdf": ".pdf",
+  "text/plain": ".txt",
+  "application/json": ".json",
+};
+
+function parseDataUrl(url: string): { mediaType: string; data: Buffer } | null {
+  const match = url.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+  if (!match) return null;
+  const mediaType = match[1] ?? "text/plain";
+  const data = match[2] ? Buffer.from(match[3], "base64") : Buffer.from(decodeURIComponent(match[3]));
+  return { mediaType, data };
+}
+
+function refFromUrl(kind: "image" | "file", url: string, name?: string, mediaType?: string): AttachmentRef | null {
+  if (url.startsWith("data:")) {
+    const parsed = parseDataUrl(url);
+    return parsed ? { kind, source: "data", mediaType: parsed.mediaType, data: parsed.data, name } : null;
+  }
+  if (/^https?:\/\//i.test(url)) return { kind, source: "url", url, mediaType, name };
+  return null;
+}
+
+/**
+ * Collect image/file blocks from a message's content. Understands OpenAI
+ * (`image_url`, `file`) and Anthropic (`image`, `document`) block shapes.
+ */
+function collectRefs(content: unknown): AttachmentRef[] {
+  if (!Array.isArray(content)) return [];
+  const refs: AttachmentRef[] = [];
+
+  for (const raw of content as Record<string, unknown>[]) {
+    let ref: AttachmentRef | null = null;
+
+    if (raw.type === "image_url") {
+      const imageUrl = raw.image_url as { url?: string } | string | undefined;
+      const url = typeof imageUrl === "string" ? imageUrl : imageUrl?.url;
+      if (url) ref = refFromUrl("image", url);
+    } else if (raw.type === "file") {
+      const file = (raw.file ?? {}) as { file_data?: string; filename?: string };
+      if (file.file_data) {
+        ref = file.file_data.startsWith("data:")
+          ? refFromUrl("file", file.file_data, file.filename)
+          : { kind: "file", source: "data", mediaType: "application/octet-stream", data: Buffer.from(file.file_data, "base64"), name: file.filename };
+      }
+    } else if (raw.type === "image" || raw.type === "document") {
+      const kind = raw.type === "image" ? "image" : "file";
+      const source = (raw.source ?? {}) as { type?: string; media_type?: string; data?: string; url?: string };
+      const name = typeof raw.title === "string" ? raw.title : undefined;
+      if (source.type === "base64" && source.data) {
+        ref = { kind, source: "data", mediaType: source.media_type ?? "application/octet-stream", data: Buffer.from(source.data, "base64"), name };
+      } else if (source.type === "text" && source.data) {
+        ref = { kind, source: "data", mediaType: source.media_type ?? "text/plain", data: Buffer.from(source.data), name };
+      } else if (source.type === "url" && source.url) {
+        ref = refFromUrl(kind, source.url, name, source.media_type);
+      }
+    }
+
+    if (ref) refs.push(ref);
+  }
+  return refs;
+}
+
+/** Whether a message's content carries anything `loadAttachments` would pick up. */
+export function hasAttachments(content: unknown): boolean {
+  return collectRefs(content).length > 0;
+}
+
+async function fetchLimited(url: string, limit: number): Promise<{ data: Buffer; mediaType?: string }> {
+  const res = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!res.ok || !res.body) throw new Error(`HTTP ${res.status}`);
+  const declared = Number(res.headers.get("content-length") ?? 0);
+  if (declared > limit) throw new Error(`exceeds ${formatMb(limit)}`);
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of res.body as unknown as AsyncIterable<Uint8Array>) {
+    size += chunk.byteLength;
+    if (size > limit) throw new Error(`exceeds ${formatMb(limit)}`);
+    chunks.push(Buffer.from(chunk));
+  }
+  const mediaType = res.headers.get("content-type")?.split(";")[0].trim();
+  return { data: Buffer.concat(chunks), mediaType };
+}
+
+function formatMb(bytes: number): string {
+  return `${Math.round(bytes / 1024 / 1024)} MB`;
+}
+
+function fileNameFor(ref: AttachmentRef, mediaType: string): string {
+  const fromUrl = ref.source === "url" ? basename(new URL(ref.url).pathname) : "";
+  const original = (ref.name ?? fromUrl).replace(/[^\w.-]+/g, "_").slice(-80);
+  const ext = extname(original) || EXTENSIONS[mediaType] || "";
+  const stem = original ? original.slice(0, original.length - extname(original).length) : ref.kind;
+  return `${Date.now()}-${randomBytes(3).toString("hex")}-${stem}${ext}`;
+}
+
+/**
+ * Load the attachments of a message and write them under `<cwd>/.openclaw/attachments`.
+ * Attachments that cannot be loaded or exceed the size limits are skipped; a
+ * short note for each is returned so the agent knows something was dropped.
+ */
+export async function loadAttachments(
+  content: unknown,
+  cwd: string,
+  logger: Logger,
+): Promise<{ attachments: Attachment[]; notes: string[] }> {
+  const refs = collectRefs(content);
+  const attachments: Attachment[] = [];
+  const notes: string[] = [];
+  if (refs.length === 0) return { attachments, notes };
+
+  if (refs.length > MAX_ATTACHMENTS) {
+    notes.push(`[${refs.length - MAX_ATTACHMENTS} attachment(s) skipped: at most ${MAX_ATTACHMENTS} per message]`);
+    refs.length = MAX_ATTACHMENTS;
+  }
+
+  const dir = join(cwd, ATTACHMENT_DIR);
+  await mkdir(dir, { recursive: true });
+  await pruneAttachments(dir, logger);
+
+  for (const ref of refs) {
+    const limit = ref.kind === "image" ? MAX_IMAGE_BYTES : MAX_FILE_BYTES;
+    const label = ref.name ?? (ref.source === "url" ? ref.url : `${ref.kind} (${ref.mediaType})`);
+    try {
+      let data: Buffer;
+      let mediaType: string;
+      if (ref.source === "data") {
+        if (ref.data.length > limit) throw new Error(`exceeds ${formatMb(limit)}`);
+        data = ref.data;
+        mediaType = ref.mediaType;
+      } else {
+        const fetched = await fetchLimited(ref.url, limit);
+        data = fetched.data;
+        mediaType = ref.mediaType ?? fetched.mediaType ?? "application/octet-stream";
+      }
+
+      const path = join(dir, fileNameFor(ref, mediaType));
+      await writeFile(path, data);
+      logger.info(`attachments: saved ${ref.kind} ${mediaType} ${data.length}B → ${path}`);
+      attachments.push({ kind: ref.kind, mediaType, name: ref.name, data, path });
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      logger.warn(`attachments: skipped ${label.slice(0, 80)}: ${reason}`);
+      notes.push(`[attachment skipped: ${label.slice(0, 80)} — ${reason}]`);
+    }
+  }
+  return { attachments, notes };
+}
+
+/**
+ * Delete saved attachments past the age limit and all but the newest ones, so
+ * long-lived agents don't grow the directory without bound. Files of recent
+ * turns stay, since the agent may still refer back to them.
+ */
+async function pruneAttachments(dir: string, logger: Logger): Promise<void> {
+  try {
+    const files = await Promise.all(
+      (await readdir(dir)).map(async (name) => ({ path: join(dir, name), mtimeMs: (await stat(join(dir, name))).mtimeMs })),
+    );
+    files.sort((a, b) => b.mtimeMs - a.mtimeMs);
+    const cutoff = Date.now() - MAX_ATTACHMENT_AGE_MS;
+    const stale = files.filter((f, i) => i >= MAX_KEPT_ATTACHMENTS || f.mtimeMs < cutoff);
+    await Promise.all(stale.map((f) => rm(f.path, { force: true, recursive: true })));
+    if (stale.length > 0) logger.info(`attachments: pruned ${stale.length} old file(s) from ${dir}`);
+  } catch (err) {
+    logger.warn(`attachments: pruning ${dir} failed: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/** Text listing attachments by path, for backends that read them from disk. */
+export function describeAttachments(attachments: Attachment[]): string {
+  if (attachments.length === 0) return "";
+  const lines = attachments.map((a) => `- ${a.path} (${a.mediaType}${a.name ? `, ${a.name}` : ""})`);
+  return `\n\nAttached files (saved in the working directory):\n${lines.join("\n")}`;
+}
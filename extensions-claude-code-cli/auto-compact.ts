@@ -0,0 +1,44 @@
+import type { ContextUsage } from "./claude-process.js";
+
+/** When to compact a Claude session on its own, between turns. */
+export type AutoCompactPolicy = {
+  /** Fraction of the context window (0-1) at which to compact, e.g. 0.85. */
+  threshold?: number;
+  /** Summarization instruction passed to `/compact`. */
+  instructions?: string;
+};
+
+export interface AutoCompactConfig {
+  defaults?: AutoCompactPolicy;
+  /** Per-agent overrides (key = lowercase agent name), merged field by field over the defaults. */
+  agents?: Record<string, AutoCompactPolicy>;
+}
+
+/** One compaction of a Claude session, for `/status` and the chat notice. */
+export type CompactionRecord = {
+  trigger: "auto" | "manual";
+  /** Context size the CLI compacted from. */
+  beforeTokens: number;
+  /** Context size of the first API call afterwards; unknown until the next turn. */
+  afterTokens?: number;
+  contextWindow?: number;
+  at: number;
+};
+
+/** Whether a session's last reported context crossed the policy's threshold. */
+export function isCompactionDue(context: ContextUsage | undefined, policy: AutoCompactPolicy): boolean {
+  if (!policy.threshold || !context?.contextWindow) return false;
+  return context.contextTokens / context.contextWindow >= policy.threshold;
+}
+
+function formatTokens(n: number): string {
+  return n >= 1000 ? `${Math.round(n / 1000)}k` : String(n);
+}
+
+/** One-line chat notice for an automatic compaction. */
+export function formatCompaction(record: CompactionRecord): string {
+  const usage = record.contextWindow
+    ? `${Math.round((record.beforeTokens / record.contextWindow) * 100)}% of ${formatTokens(record.contextWindow)} tokens`
+    : `${formatTokens(record.beforeTokens)} tokens`;
+  return `🗜️ Context was at ${usage}; the conversation was compacted automatically.`;
+}
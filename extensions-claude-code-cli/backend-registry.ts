@@ -0,0 +1,160 @@
+import type { ContextUsage, ProcessExit, RateLimitInfo, SendMessageResult } from "./claude-process.js";
+import type { PermissionDecision, PermissionRequest } from "./approvals.js";
+import type { ProgressHooks } from "./progress-events.js";
+import type { Attachment } from "./attachments.js";
+import type { CompactionRecord } from "./auto-compact.js";
+import type { AgentPermissions } from "./session-store.js";
+import type { PriceTable } from "./pricing.js";
+import type { AccountPool, CliAccount } from "./account-pool.js";
+
+type Logger = {
+  info: (msg: string) => void;
+  warn: (msg: string) => void;
+  error: (msg: string) => void;
+};
+
+/**
+ * A CLI session as the session store and bridge drive it. Optional methods
+ * are capabilities only some CLIs have (Claude's persistent stream-json
+ * process); callers check for them instead of the backend ID.
+ */
+export interface CliProcess {
+  start(): void;
+  sendMessage(
+    text: string,
+    onText?: (text: string) => void,
+    hooks?: ProgressHooks,
+    attachments?: Attachment[],
+  ): Promise<SendMessageResult>;
+  isAlive(): boolean;
+  isBusy(): boolean;
+  /** Kill the running turn; it rejects and reports nothing. */
+  abortTurn(): void;
+  stop(): Promise<void>;
+  /** Start again after a stop; a supervised process resumes `resumeSessionId` when given. */
+  restart(resumeSessionId?: string): Promise<void>;
+  getSessionId(): string;
+  getTotalCost(): number;
+  getCwd(): string | undefined;
+  getModel(): string | undefined;
+  getContext(): ContextUsage | undefined;
+
+  /** Stop the running turn in place; resolves with its partial result. */
+  interrupt?(): Promise<SendMessageResult | null>;
+  /** Add a message to the running turn; false when there is none. */
+  injectMessage?(text: string, attachments?: Attachment[]): boolean;
+  compact?(trigger: CompactionRecord["trigger"], instructions?: string): Promise<CompactionRecord>;
+  getLastCompaction?(): CompactionRecord | undefined;
+  /** Last reported rate-limit windows, keyed by type ("five_hour", "seven_day", ...). */
+  getRateLimits?(): Map<string, RateLimitInfo>;
+  /**
+   * Milliseconds since the CLI last wrote output. A persistent process that
+   * has it (and reports exits through `onExit`) runs under the crash/stall
+   * supervisor.
+   */
+  getSilentMs?(): number;
+  /** Whether a permission prompt is waiting on the user. */
+  isAwaitingPermission?(): boolean;
+}
+
+/** One message of a conversation whose history the bridge keeps itself. */
+export type HistoryMessage = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+/**
+ * Conversation history by session ID, persisted by the session store for
+ * backends whose upstream is stateless (plain chat-completions endpoints).
+ */
+export interface HistoryStore {
+  load(sessionId: string): HistoryMessage[] | undefined;
+  save(sessionId: string, messages: HistoryMessage[]): void;
+}
+
+/** Everything the session store knows when it starts a session on a backend. */
+export type BackendSessionOptions = {
+  /** Session key (agent name). */
+  conversationId: string;
+  cwd: string;
+  model?: string;
+  /** Session/thread ID to resume. */
+  resumeId?: string;
+  systemPrompt?: string;
+  /** The agent's merged permissions; each backend reads the fields it understands. */
+  permissions: AgentPermissions;
+  prices?: PriceTable;
+  history: HistoryStore;
+  /** MCP server exposing the client's tools (backends with `clientTools` only). */
+  mcpServers?: Record<string, unknown>;
+  /** Login to run under, from the backend's account pool (pinned per session). */
+  account?: CliAccount;
+  /** Set when the agent routes permission prompts to the chat user. */
+  onPermissionRequest?: (req: PermissionRequest) => Promise<PermissionDecision>;
+  /** Unexpected process exit, for the crash/stall supervisor. */
+  onExit?: (exit: ProcessExit) => void;
+  logger: Logger;
+};
+
+/**
+ * A CLI the bridge can route models to. Each backend module exports a
+ * factory for one (`claudeBackend`, `codexBackend`, ...); index.ts registers
+ * them, so adding a CLI does not touch the bridge or the command handler.
+ */
+export interface CliBackend {
+  /** Stable ID: persisted with sessions, used as the metrics label and in `/sessions`. */
+  id: string;
+  /** Long name for `/status`, e.g. "Codex CLI". */
+  label: string;
+  /** Short name for `/model`, e.g. "Codex". */
+  shortLabel: string;
+  /** `owned_by` of its models in `/v1/models`. */
+  vendor: string;
+  /** Can serve OpenAI `tools` through an MCP server (see ToolBridge). */
+  clientTools?: boolean;
+  /** Logins sessions are spread across; the session store picks one per session and pins it. */
+  accounts?: AccountPool;
+  /** Model IDs to advertise in `/model` and `/v1/models`. */
+  models(): string[];
+  /** Whether this backend serves a model ID. */
+  matchesModel(model: string): boolean;
+  create(opts: BackendSessionOptions): CliProcess;
+}
+
+/**
+ * Registered backends in priority order. A model goes to the first backend
+ * that matches it, and to the default backend when none does.
+ */
+export class BackendRegistry {
+  private backends = new Map<string, CliBackend>();
+  private defaultBackend: CliBackend;
+
+  constructor(defaultBackend: CliBackend) {
+    this.defaultBackend = defaultBackend;
+    this.backends.set(defaultBackend.id, defaultBackend);
+  }
+
+  register(backend: CliBackend): void {
+    if (this.backends.has(backend.id)) {
+      throw new Error(`Backend "${backend.id}" is already registered`);
+    }
+    this.backends.set(backend.id, backend);
+  }
+
+  get(id: string): CliBackend | undefined {
+    return this.backends.get(id);
+  }
+
+  /** Backend serving a model; the default one when no model is given or nothing else claims it. */
+  resolve(model?: string): CliBackend {
+    if (!model) return this.defaultBackend;
+    for (const backend of this.backends.values()) {
+      if (backend !== this.defaultBackend && backend.matchesModel(model)) return backend;
+    }
+    return this.defaultBackend;
+  }
+
+  list(): CliBackend[] {
+    return [...this.backends.values()];
+  }
+}
@@ -1,10 +1,38 @@
 import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
-import { readFileSync } from "node:fs";
-import type { SessionStore } from "./session-store.js";
+import type { SessionStore, SessionEntry, CreateSessionOpts } from "./session-store.js";
+import type { RateLimitInfo, SendMessageResult, TurnHooks, TurnUsage } from "./claude-process.js";
+import type { ProgressEvent } from "./progress-events.js";
+import { hasAttachments, loadAttachments, type Attachment } from "./attachments.js";
+import { ApiKeyAuth, type ApiKeyEntry } from "./api-keys.js";
+import { SESSIONS_PATH, handleSessionAdmin } from "./session-admin.js";
+import { BridgeMetrics, METRICS_PATH } from "./metrics.js";
+import { USAGE_PATH, handleUsageExport } from "./usage-ledger.js";
+import { EVENTS_PATH, EventHub } from "./event-stream.js";
+import { formatIncident } from "./process-supervisor.js";
+import { formatCompaction } from "./auto-compact.js";
+import { formatApprovalPrompt } from "./approvals.js";
+import { FallbackChain, modelKey, rejectedUntil, type FallbackConfig } from "./fallback.js";
+import type { BudgetEvent } from "./budget.js";
 import type { CommandHandler } from "./command-handler.js";
 import type { HudMonitor } from "./hud-monitor.js";
-import { type HudWebSocket, type HudData, formatResetIn } from "./hud-ws.js";
+import { type HudWebSocket, type HudData, type TaskData, formatResetIn } from "./hud-ws.js";
+import { HudStateManager } from "./hud-state.js";
 import { findAndUploadImages, replaceImagePaths } from "./image-replacer.js";
+import { SessionQueue, type QueueOptions, type QueuedMessage } from "./session-queue.js";
+import {
+  ToolBridge,
+  toolChoiceHint,
+  type OpenAiTool,
+  type OpenAiToolChoice,
+  type ToolCall,
+} from "./tool-bridge.js";
+import {
+  AnthropicMessageBuilder,
+  anthropicError,
+  parseSystemPrompt,
+  sseEvent,
+  toAnthropicUsage,
+} from "./anthropic-messages.js";
 
 type Logger = {
   info: (msg: string) => void;
@@ -14,6 +42,12 @@ type Logger = {
 
 type ModelInfo = { id: string; owned_by: string };
 
+export type QueueConfig = {
+  defaults: QueueOptions;
+  /** Per-agent overrides (key = lowercase agent name). */
+  agents?: Record<string, Partial<QueueOptions>>;
+};
+
 type BridgeOptions = {
   port: number;
   sessionStore: SessionStore;
@@ -22,14 +56,111 @@ type BridgeOptions = {
   models?: ModelInfo[];
   hudMonitor?: HudMonitor;
   hudWs?: HudWebSocket;
+  /** Latest HUD state per conversation, shared with `hudWs`. */
+  hudState?: HudStateManager;
+  queue?: QueueConfig;
+  /** Per-agent model fallback chains for rate limits and failing backends. */
+  fallback?: FallbackConfig;
+  /** Bearer keys; when empty the bridge accepts any local caller. */
+  apiKeys?: ApiKeyEntry[];
 };
 
-type ContentBlock = { type: string; text?: string };
+const DEFAULT_QUEUE: QueueOptions = { policy: "queue", maxDepth: 3 };
+/** Reply to a follow-up that went into the running turn; its answer streams to the original request. */
+const INJECTED_NOTE = "↪️ Added to the running turn; the reply continues there.";
+/** How long a turn paused on client tool calls waits for the results. */
+const TOOL_RESULT_TIMEOUT_MS = 10 * 60 * 1000;
+const MCP_PATH = "/v1/bridge/mcp";
+/** Request header opting a streaming client into progress events (tool activity, thinking, sub-agents). */
+const PROGRESS_HEADER = "x-bridge-progress";
+
+/** Text, image and file blocks (OpenAI or Anthropic shapes); only `text` is read directly. */
+type ContentBlock = { type: string; text?: string; [key: string]: unknown };
 type MessageContent = string | ContentBlock[];
 
+type ChatToolCall = {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+};
+
 type ChatMessage = {
   role: string;
-  content: MessageContent;
+  content: MessageContent | null;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+};
+
+/** OpenAI `usage` object; the cache fields are passed through from Claude when reported. */
+type OpenAiUsage = {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+};
+
+/** Response a turn's output is written to; swapped when the client resumes a turn with tool results. */
+type ResponseSink = {
+  res: ServerResponse;
+  isStreaming: boolean;
+  id: string;
+  created: number;
+  /** Prose written to this response. */
+  text: string;
+  disconnected: boolean;
+  /** Resolves once the response is closed (finished or dropped). */
+  finished: Promise<void>;
+};
+
+/** A chat turn as both endpoints hand it to the shared turn runner. */
+type TurnRequest = {
+  sessionKey: string;
+  /** Caller's key; its model scope also applies to /model overrides and fallbacks. */
+  apiKey: ApiKeyEntry | null;
+  /** Model ID of the request ("claude-code-cli" = the agent's default). */
+  model: string;
+  conversationId?: string;
+  input: QueuedMessage;
+  /** `/btw`: inject into the running turn under any policy, else wait for the next turn. */
+  btw: boolean;
+  /** OpenAI function tools to expose to Claude (chat completions only). */
+  clientTools?: OpenAiTool[];
+  /** Client's system prompt (Messages API `system`); a change restarts the CLI. */
+  systemPrompt?: string;
+};
+
+/** How an endpoint writes a turn to its client; everything else about the turn is shared. */
+type TurnWire = {
+  /** Whether the response the turn currently writes to streams (a tool round-trip may switch it). */
+  streaming(): boolean;
+  disconnected(): boolean;
+  /** Whole reply as one message (inject, merge, queue and budget notices). */
+  reply(text: string): void;
+  /** HTTP 429 for non-streaming clients. */
+  refuse(message: string, code?: string): void;
+  /** Start the response before queueing; `onDisconnect` runs if the client goes away first. */
+  open(onDisconnect: () => void): void;
+  queuePosition(position: number): void;
+  /** The turn got the session slot and is about to write. */
+  start(): void;
+  /** Model prose (backends without stream events on the Messages API). */
+  text(text: string): void;
+  /** Bridge prose: notices ahead of the reply, approval prompts, budget trailer. */
+  notice(text: string): void;
+  /** Raw Claude stream events, for endpoints that forward them. */
+  streamEvent?: (event: Record<string, unknown>) => void;
+  progress(event: ProgressEvent): void;
+  /** Hand client tool calls to the client; resolves once it posted the results. */
+  toolCalls?: (calls: ToolCall[]) => Promise<void>;
+  /** Final write; in the session slot when streaming, after it otherwise. */
+  finish(out: SendMessageResult, prose: { notice: string; trailer: string }): Promise<void>;
+  fail(message: string): void;
+};
+
+type SuspendedTurn = {
+  callIds: string[];
+  resume: (sink: ResponseSink) => void;
 };
 
 /** Strip OpenClaw's injected metadata block, returning only the user's actual message. */
@@ -38,6 +169,12 @@ function stripMetadata(msg: string): string {
   return msg.replace(/\w[\w\s]*\(untrusted metadata\):\s*```json\s*[\s\S]*?```\s*/g, "").trim();
 }
 
+/** Text of a `/btw <text>` message (steers the running turn), or null for any other message. */
+function parseBtw(msg: string): string | null {
+  const match = msg.trim().match(/^\/btw\s+([\s\S]+)$/i);
+  return match ? match[1].trim() : null;
+}
+
 /** Extract sender metadata from OpenClaw's injected conversation info. */
 function extractSenderMeta(msg: string): { conversationId?: string; agentName?: string } | null {
   // Handle both escaped (\"key\":\"val\") and unescaped ("key":"val") quotes
@@ -51,6 +188,17 @@ function extractSenderMeta(msg: string): { conversationId?: string; agentName?:
 }
 
 
+/** Normalize a request's model field: drop OpenClaw's "provider/" prefix and split off "(agent)". */
+function resolveRequestModel(raw: unknown): { agent: string; model: string } {
+  let model = typeof raw === "string" ? raw : "claude-code-cli";
+  // OpenClaw may send "provider/model" format — strip the provider prefix
+  if (model.includes("/")) {
+    model = model.split("/").pop()!;
+  }
+  // Parse agent name from model ID: "model(agent)" → agent, model
+  return parseModelId(model);
+}
+
 function parseModelId(raw: string): { agent: string; model: string } {
   const match = raw.match(/^(.+?)\(([^)]+)\)$/);
   if (match) {
@@ -71,7 +219,12 @@ function formatModelName(modelId: string): string {
   return MODEL_NAMES[modelId] ?? modelId;
 }
 
-function contentToString(content: MessageContent): string {
+/** A turn's model in chat notices (no model = the agent's default). */
+function modelLabel(model: string | undefined): string {
+  return model ? formatModelName(model) : "the default model";
+}
+
+function contentToString(content: MessageContent | null): string {
   if (typeof content === "string") return content;
   if (Array.isArray(content)) {
     return content
@@ -82,24 +235,6 @@ function contentToString(content: MessageContent): string {
   return String(content ?? "");
 }
 
-// Simple mutex for sequential request processing
-function createMutex() {
-  let locked = false;
-  return {
-    isLocked(): boolean {
-      return locked;
-    },
-    async run<T>(fn: () => Promise<T>): Promise<T> {
-      locked = true;
-      try {
-        return await fn();
-      } finally {
-        locked = false;
-      }
-    },
-  };
-}
-
 function extractLatestUserMsg(messages: ChatMessage[]): string {
   let latestUserMsg = "";
   for (const msg of messages) {
@@ -110,6 +245,40 @@ function extractLatestUserMsg(messages: ChatMessage[]): string {
   return latestUserMsg;
 }
 
+/** Raw content of the latest user message (for its image/file blocks). */
+function latestUserContent(messages: ChatMessage[]): MessageContent | null {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === "user") return messages[i].content;
+  }
+  return null;
+}
+
+/** `role: "tool"` messages at the end of the conversation (results for the last tool calls). */
+function trailingToolResults(messages: ChatMessage[]): ChatMessage[] {
+  let i = messages.length;
+  while (i > 0 && messages[i - 1].role === "tool") i--;
+  return messages.slice(i);
+}
+
+/** Render tool results as a user message when there is no paused turn to hand them to. */
+function formatToolResults(messages: ChatMessage[], results: ChatMessage[]): string {
+  const names = new Map<string, string>();
+  for (const msg of messages) {
+    for (const call of msg.tool_calls ?? []) names.set(call.id, call.function.name);
+  }
+  const lines = ["Results of the tools you called:"];
+  for (const r of results) {
+    const name = (r.tool_call_id ? names.get(r.tool_call_id) : undefined) ?? "tool";
+    lines.push(`\n[${name} ${r.tool_call_id ?? ""}]\n${contentToString(r.content)}`);
+  }
+  return lines.join("\n");
+}
+
+function wantsProgress(req: IncomingMessage): boolean {
+  const value = req.headers[PROGRESS_HEADER];
+  return value === "1" || value === "true";
+}
+
 function readBody(req: IncomingMessage): Promise<string> {
   return new Promise((resolve, reject) => {
     const chunks: Buffer[] = [];
@@ -128,6 +297,17 @@ function jsonResponse(res: ServerResponse, status: number, body: unknown): void
   res.end(payload);
 }
 
+function toOpenAiUsage(usage: TurnUsage | undefined): OpenAiUsage {
+  if (!usage) return { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+  return {
+    prompt_tokens: usage.input_tokens,
+    completion_tokens: usage.output_tokens,
+    total_tokens: usage.input_tokens + usage.output_tokens,
+    cache_read_input_tokens: usage.cache_read_input_tokens,
+    cache_creation_input_tokens: usage.cache_creation_input_tokens,
+  };
+}
+
 // --- SSE helpers ---
 
 function sseStart(res: ServerResponse): void {
@@ -152,7 +332,7 @@ function sseDelta(res: ServerResponse, id: string, created: number, model: strin
   res.write(`data: ${JSON.stringify(chunk)}\n\n`);
 }
 
-function sseFinish(res: ServerResponse, id: string, created: number, model: string, usage?: Record<string, number>, extra?: Record<string, unknown>): void {
+function sseFinish(res: ServerResponse, id: string, created: number, model: string, usage?: OpenAiUsage, extra?: Record<string, unknown>): void {
   const finishChunk = {
     id,
     object: "chat.completion.chunk",
@@ -167,10 +347,72 @@ function sseFinish(res: ServerResponse, id: string, created: number, model: stri
   res.end();
 }
 
+/** Stream `tool_calls` deltas and close the response with `finish_reason: "tool_calls"`. */
+function sseToolCalls(res: ServerResponse, id: string, created: number, model: string, calls: ToolCall[]): void {
+  const chunk = {
+    id,
+    object: "chat.completion.chunk",
+    created,
+    model,
+    choices: [{
+      index: 0,
+      delta: {
+        role: "assistant",
+        tool_calls: calls.map((c, index) => ({
+          index,
+          id: c.id,
+          type: "function",
+          function: { name: c.name, arguments: c.arguments },
+        })),
+      },
+      finish_reason: null,
+    }],
+  };
+  res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+  const finishChunk = {
+    id,
+    object: "chat.completion.chunk",
+    created,
+    model,
+    choices: [{ index: 0, delta: {}, finish_reason: "tool_calls" }],
+  };
+  res.write(`data: ${JSON.stringify(finishChunk)}\n\n`);
+  res.write("data: [DONE]\n\n");
+  res.end();
+}
+
+/** Empty delta carrying the request's position in the session queue. */
+function sseQueueStatus(res: ServerResponse, id: string, created: number, model: string, position: number): void {
+  const chunk = {
+    id,
+    object: "chat.completion.chunk",
+    created,
+    model,
+    choices: [{ index: 0, delta: {}, finish_reason: null }],
+    queue: { position },
+  };
+  res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+}
+
+/** Empty delta carrying a turn progress event (opt-in via the progress header). */
+function sseProgress(res: ServerResponse, id: string, created: number, model: string, progress: ProgressEvent): void {
+  const chunk = {
+    id,
+    object: "chat.completion.chunk",
+    created,
+    model,
+    choices: [{ index: 0, delta: {}, finish_reason: null }],
+    progress,
+  };
+  res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+}
+
 function sseFullMessage(res: ServerResponse, text: string, model: string): void {
   const id = `chatcmpl-${Date.now()}`;
   const created = Math.floor(Date.now() / 1000);
-  sseStart(res);
+  if (!res.headersSent) {
+    sseStart(res);
+  }
   sseDelta(res, id, created, model, text);
   sseFinish(res, id, created, model);
 }
@@ -185,28 +427,844 @@ function sseError(res: ServerResponse, message: string): void {
   sseFinish(res, id, created, "claude-code-cli");
 }
 
-function openAiError(message: string, type: string, code: string | null = null): unknown {
+/**
+ * Wrap a response as a turn output target. Streaming sinks start SSE and a
+ * keep-alive immediately; `onDisconnect` fires if the client drops before the
+ * response is finished.
+ */
+function openSink(res: ServerResponse, isStreaming: boolean, model: string, onDisconnect: () => void): ResponseSink {
+  let markFinished!: () => void;
+  const sink: ResponseSink = {
+    res,
+    isStreaming,
+    id: `chatcmpl-${Date.now()}`,
+    created: Math.floor(Date.now() / 1000),
+    text: "",
+    disconnected: false,
+    finished: new Promise<void>((resolve) => { markFinished = resolve; }),
+  };
+
+  let keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+  if (isStreaming) {
+    sseStart(res);
+    keepAliveTimer = setInterval(() => {
+      if (!res.writableEnded) sseDelta(res, sink.id, sink.created, model, "");
+    }, 5000);
+  }
+
+  res.on("close", () => {
+    if (keepAliveTimer) { clearInterval(keepAliveTimer); keepAliveTimer = null; }
+    markFinished();
+    if (res.writableEnded) return;
+    sink.disconnected = true;
+    onDisconnect();
+  });
+  return sink;
+}
+
+function writeToolCalls(sink: ResponseSink, model: string, calls: ToolCall[]): void {
+  if (sink.disconnected || sink.res.writableEnded) return;
+  if (sink.isStreaming) {
+    sseToolCalls(sink.res, sink.id, sink.created, model, calls);
+    return;
+  }
+  jsonResponse(sink.res, 200, {
+    id: sink.id,
+    object: "chat.completion",
+    created: sink.created,
+    model,
+    choices: [{
+      index: 0,
+      message: {
+        role: "assistant",
+        content: sink.text || null,
+        tool_calls: calls.map((c) => ({ id: c.id, type: "function", function: { name: c.name, arguments: c.arguments } })),
+      },
+      finish_reason: "tool_calls",
+    }],
+    usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+  });
+}
+
+/** Bridge-specific turn stats appended to the final response (both API flavours). */
+function turnExtras(out: SendMessageResult): Record<string, unknown> | undefined {
+  const extra: Record<string, unknown> = {};
+  if (out.costUsd !== undefined) extra.cost_usd = out.costUsd;
+  if (out.rateLimit) extra.rate_limit = out.rateLimit;
+  if (out.numTurns !== undefined) extra.num_turns = out.numTurns;
+  if (out.durationMs !== undefined) extra.duration_ms = out.durationMs;
+  if (out.context) extra.context = out.context;
+  return Object.keys(extra).length > 0 ? extra : undefined;
+}
+
+function openAiError(message: string, type: string, code: string | null = null): Record<string, unknown> {
   return { error: { message, type, code } };
 }
 
 export function createBridgeServer(opts: BridgeOptions) {
   const { port, sessionStore, commandHandler, logger, models, hudMonitor, hudWs } = opts;
-  const agentMutexes = new Map<string, ReturnType<typeof createMutex>>();
-  const getMutex = (agent: string) => {
-    let m = agentMutexes.get(agent);
-    if (!m) {
-      m = createMutex();
-      agentMutexes.set(agent, m);
-    }
-    return m;
-  };
+  const sessionQueue = new SessionQueue();
+  const auth = new ApiKeyAuth(opts.apiKeys);
+  const metrics = new BridgeMetrics();
+  const fallback = new FallbackChain(opts.fallback, logger);
+  /** Local subscribers (dashboards, editor extensions) of HUD, task, tool and session events. */
+  const hudState = opts.hudState ?? new HudStateManager();
+  const events = new EventHub((conv) => sessionStore.resolveAgent(conv), hudState, logger);
+
+  // Supervisor crash/stall reports → metrics + HUD (the chat gets them with the next turn)
+  sessionStore.onIncident((agent, incident) => {
+    metrics.recordCrash("claude");
+    if (incident.outcome !== "gave_up") metrics.recordRestart("claude", incident.kind);
+    hudWs?.sendIncident(agent, incident);
+    events.publish({ type: "incident", agent, data: incident });
+  });
+  sessionStore.onLifecycle((event) => {
+    events.publish({ type: "session", agent: event.conversationId, data: event });
+  });
+
+  /** Auto-compaction notices waiting for the session's next turn. */
+  const compactionNotices = new Map<string, string>();
+
+  /** Where a running turn's chat output goes, so permission prompts reach the user mid-turn. */
+  const turnWriters = new Map<string, (text: string) => void>();
+  sessionStore.approvals.onEvent((event) => {
+    hudWs?.sendApproval(event.approval.agent, event);
+    events.publish({ type: "approval", agent: event.approval.agent, data: event });
+    if (event.type !== "requested") return;
+    const write = turnWriters.get(event.approval.agent);
+    if (write) write(`\n\n${formatApprovalPrompt(event.approval)}\n\n`);
+    else logger.warn(`bridge: no active turn for ${event.approval.agent} to show approval [${event.approval.id}]`);
+  });
+  const toolBridge = new ToolBridge(`http://127.0.0.1:${port}${MCP_PATH}`, logger);
+  /** Turns paused on client tool calls, keyed by session. */
+  const suspendedTurns = new Map<string, SuspendedTurn>();
+  const queueConfig: QueueConfig = opts.queue ?? { defaults: DEFAULT_QUEUE };
+  const getQueueOptions = (agent: string): QueueOptions => ({
+    ...queueConfig.defaults,
+    ...queueConfig.agents?.[agent.toLowerCase()],
+  });
   let server: Server | null = null;
 
   const modelList: ModelInfo[] = models ?? [
     { id: "claude-code-cli", owned_by: "anthropic" },
   ];
 
-  async function handleCompletions(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  /** Resolve the session a request belongs to from OpenClaw's sender metadata. */
+  function resolveSessionKey(latestUserMsg: string, agent: string) {
+    // Extract conversationId and agentName from OpenClaw metadata
+    const senderMeta = extractSenderMeta(latestUserMsg);
+    // Use agentName as session key — session follows the person, not the conversation.
+    // This ensures context persists across private chats and group chats.
+    // Fallback: if agentName is missing but conversationId is present, resolve via mapping.
+    const sessionKey = senderMeta?.agentName
+      ?? (senderMeta?.conversationId ? sessionStore.resolveAgent(senderMeta.conversationId) : undefined)
+      ?? agent;
+    if (senderMeta?.conversationId && senderMeta.agentName) {
+      sessionStore.mapConversation(senderMeta.conversationId, senderMeta.agentName);
+    }
+    return { senderMeta, sessionKey };
+  }
+
+  /** Run a slash command (/new, /reset, etc.). Returns the reply, or null if it is not a bridge command. */
+  async function runCommand(text: string, sessionKey: string, apiKey: ApiKeyEntry | null): Promise<string | null> {
+    let cmdReply = "";
+    const cmdResult = await commandHandler.handle(text, {
+      conversationId: sessionKey,
+      sendChunk: (reply) => { cmdReply = reply; },
+      sendComplete: (reply) => { cmdReply = reply; },
+      sendError: (reply) => { cmdReply = `Error: ${reply}`; },
+      exclusive: (fn) => sessionQueue.exclusive(sessionKey, fn),
+      authorizeAgent: (agent) => auth.authorizeAgent(apiKey, agent),
+      allowsModel: (model) => auth.allowsModel(apiKey, model),
+    });
+    return cmdResult.handled ? cmdReply : null;
+  }
+
+  /** Compact a Claude session in the background once a turn leaves its context over the agent's threshold. */
+  function scheduleAutoCompact(sessionKey: string): void {
+    if (!sessionStore.compactionDue(sessionKey)) return;
+    logger.info(`bridge: session=${sessionKey} context over the autoCompact threshold, compacting`);
+    sessionQueue.exclusive(sessionKey, async () => {
+      // A turn or /compact that got the slot first may have settled it
+      if (!sessionStore.compactionDue(sessionKey)) return null;
+      return sessionStore.compactSession(sessionKey, "auto");
+    })
+      .then((record) => {
+        if (record) compactionNotices.set(sessionKey, formatCompaction(record));
+      })
+      .catch((err) => {
+        logger.warn(`bridge: auto-compaction failed for session=${sessionKey}: ${err instanceof Error ? err.message : String(err)}`);
+      });
+  }
+
+  /**
+   * Add a follow-up to the session's running Claude turn instead of queueing it
+   * (inject policy, or always for /btw). Returns whether it was injected.
+   */
+  function tryInject(sessionKey: string, input: QueuedMessage, explicit: boolean): boolean {
+    if (!explicit && getQueueOptions(sessionKey).policy !== "inject") return false;
+    // A turn paused on client tools waits for tool results, not for more input
+    if (!sessionQueue.isBusy(sessionKey) || suspendedTurns.has(sessionKey)) return false;
+    if (!sessionStore.injectMessage(sessionKey, input.text, input.attachments)) return false;
+    logger.info(`bridge: session=${sessionKey} message injected into the running turn`);
+    return true;
+  }
+
+  /** Resolve the effective model (command override > request body) and the backend serving it. */
+  function resolveTurnModel(sessionKey: string, model: string) {
+    const cmdModel = commandHandler.getModelForConversation(sessionKey);
+    const effectiveModel = cmdModel ?? (model !== "claude-code-cli" ? model : undefined);
+    return { effectiveModel, backend: sessionStore.resolveBackend(effectiveModel) };
+  }
+
+  /** Get a live session for the turn, recreating it if the backend, client tool set or system prompt changed. */
+  async function ensureSession(
+    sessionKey: string,
+    backend: string,
+    createOpts: () => CreateSessionOpts,
+    toolsHash?: string,
+    systemPrompt?: string,
+  ): Promise<SessionEntry> {
+    let entry = sessionStore.getSession(sessionKey);
+
+    // Let an in-flight supervisor restart finish instead of racing it with a new process
+    const recovering = entry?.supervisor?.pendingRecovery();
+    if (recovering) await recovering;
+
+    // Backend mismatch → destroy and recreate
+    if (entry && entry.process.isAlive() && entry.backend !== backend) {
+      logger.info(`bridge: backend mismatch (${entry.backend} → ${backend}), recreating session`);
+      metrics.recordRestart(entry.backend, "backend_changed");
+      await sessionStore.destroySession(sessionKey);
+      entry = undefined;
+    }
+
+    // Client tool set changed → restart the CLI so it picks up the new MCP tools (auto-resumes)
+    if (entry && entry.process.isAlive() && toolsHash && entry.toolsHash !== toolsHash) {
+      logger.info(`bridge: client tools changed for session=${sessionKey}, restarting CLI`);
+      metrics.recordRestart(entry.backend, "tools_changed");
+      await sessionStore.destroySession(sessionKey);
+      entry = undefined;
+    }
+
+    // System prompt changed → the CLI takes it at startup only, so restart it the same way
+    if (entry && entry.process.isAlive() && systemPrompt !== undefined && entry.systemPrompt !== systemPrompt) {
+      logger.info(`bridge: system prompt changed for session=${sessionKey}, restarting CLI`);
+      metrics.recordRestart(entry.backend, "system_changed");
+      await sessionStore.destroySession(sessionKey);
+      entry = undefined;
+    }
+
+    if (!entry || !entry.process.isAlive()) {
+      // Still registered but not running → the CLI died between turns (supervised ones were already counted)
+      if (entry && !entry.supervisor) {
+        metrics.recordCrash(entry.backend);
+        metrics.recordRestart(entry.backend, "crashed");
+      }
+      return sessionStore.createSession(sessionKey, createOpts());
+    }
+    entry.lastActivity = Date.now();
+    return entry;
+  }
+
+  /**
+   * After a failed turn: if the supervisor is restarting the CLI on the same
+   * session, wait for it; otherwise drop the (possibly stale) persisted
+   * session and start fresh.
+   */
+  async function recoverSession(
+    sessionKey: string,
+    entry: SessionEntry,
+    createOpts: () => CreateSessionOpts,
+    err: unknown,
+  ): Promise<SessionEntry> {
+    const errMsg = err instanceof Error ? err.message : String(err);
+    const recovering = entry.supervisor?.pendingRecovery();
+    if (recovering && await recovering) {
+      logger.warn(`bridge: sendMessage failed: ${errMsg}, retrying on the resumed session`);
+      return entry;
+    }
+
+    logger.warn(`bridge: sendMessage failed: ${errMsg}, recreating session...`);
+    if (!entry.supervisor && !entry.process.isAlive()) metrics.recordCrash(entry.backend);
+    metrics.recordRestart(entry.backend, "turn_failed");
+    // Stale persisted session → clear and start fresh
+    sessionStore.clearPersistedSession(sessionKey);
+    await sessionStore.destroySession(sessionKey);
+    return sessionStore.createSession(sessionKey, createOpts());
+  }
+
+  /** Chat notice for crashes/stalls and auto-compactions since the session's last turn (empty when there were none). */
+  function pendingNotice(sessionKey: string): string {
+    const lines = sessionStore.takeIncidents(sessionKey).map((i) => formatIncident(i));
+    const compaction = compactionNotices.get(sessionKey);
+    if (compaction) {
+      compactionNotices.delete(sessionKey);
+      lines.push(compaction);
+    }
+    return lines.length > 0 ? `${lines.join("\n")}\n\n` : "";
+  }
+
+  /** Send one turn; Claude sessions also get the raw stream events. */
+  function sendTurn(
+    entry: SessionEntry,
+    text: string,
+    onText: (text: string) => void,
+    hooks?: TurnHooks,
+    attachments?: Attachment[],
+  ) {
+    return entry.process.sendMessage(text, onText, hooks, attachments);
+  }
+
+  /** Write the latest user message's images/files into the session cwd; skipped ones become notes in the prompt. */
+  async function prepareAttachments(messages: ChatMessage[], agentForCwd: string, text: string) {
+    const content = latestUserContent(messages);
+    if (!hasAttachments(content)) return { text, attachments: [] };
+    const { attachments, notes } = await loadAttachments(
+      content,
+      commandHandler.getCwdForConversation(agentForCwd),
+      logger,
+    );
+    return { text: notes.length > 0 ? `${text}\n\n${notes.join("\n")}` : text, attachments };
+  }
+
+  /** Budget event of a turn that must not start because a spending cap is used up (null when it may). */
+  function overBudget(sessionKey: string): BudgetEvent | null {
+    const refused = sessionStore.budget.check(sessionKey);
+    if (refused) {
+      logger.warn(`bridge: session=${sessionKey} turn refused — ${refused.message}`);
+      hudWs?.sendBudget(sessionKey, refused);
+      events.publish({ type: "budget", agent: sessionKey, data: refused });
+    }
+    return refused;
+  }
+
+  /**
+   * Watch a turn's running cost against what the agent's caps still allow,
+   * and abort it once the estimate passes. `onUsage` is undefined when no
+   * cap applies.
+   */
+  function watchSpend(sessionKey: string, model: () => string | undefined, abort: () => void) {
+    const allowance = sessionStore.budget.allowance(sessionKey);
+    let stopped: BudgetEvent | undefined;
+    let lastUsage: TurnUsage | undefined;
+    const onUsage = (usage: TurnUsage, apiModel?: string) => {
+      if (!allowance || stopped) return;
+      lastUsage = usage;
+      const cost = sessionStore.budget.estimate(apiModel ?? model(), usage);
+      if (cost === undefined || cost <= allowance.usd) return;
+      stopped = sessionStore.budget.stopped(allowance, cost);
+      logger.warn(`bridge: session=${sessionKey} ${stopped.message}`);
+      hudWs?.sendBudget(sessionKey, stopped);
+      events.publish({ type: "budget", agent: sessionKey, data: stopped });
+      abort();
+    };
+    return { onUsage: allowance ? onUsage : undefined, stopped: () => stopped, usage: () => lastUsage };
+  }
+
+  /**
+   * Charge a turn stopped at a cap whose backend rejected the abort (Codex)
+   * instead of returning its partial result: the estimate goes to the ledger
+   * and the budgets, so the money still counts against the day and month caps.
+   */
+  function chargeStoppedTurn(
+    sessionKey: string,
+    entry: SessionEntry,
+    model: string,
+    stopped: BudgetEvent,
+    usage: TurnUsage | undefined,
+    startedAt: number,
+    conversationId?: string,
+  ): void {
+    const out: SendMessageResult = {
+      text: "",
+      sessionId: entry.process.getSessionId(),
+      usage,
+      costUsd: stopped.spentUsd,
+      durationMs: Date.now() - startedAt,
+      aborted: true,
+    };
+    sessionStore.ledger.record({
+      agent: sessionKey,
+      conversationId,
+      backend: entry.backend,
+      model: entry.process.getModel() ?? entry.model ?? model,
+      account: entry.account,
+    }, out);
+    for (const event of sessionStore.budget.record(sessionKey, out.costUsd)) {
+      hudWs?.sendBudget(sessionKey, event);
+      events.publish({ type: "budget", agent: sessionKey, data: event });
+    }
+    sessionStore.recordAccountUsage(sessionKey, out.costUsd);
+  }
+
+  /** Post-turn bookkeeping, done while still holding the queue slot. */
+  function completeTurn(
+    sessionKey: string,
+    entry: SessionEntry,
+    out: SendMessageResult,
+    model: string,
+    startedAt: number,
+    conversationId?: string,
+  ) {
+    metrics.recordTurn(
+      { agent: sessionKey, model: entry.model ?? model, backend: entry.backend },
+      out,
+      Date.now() - startedAt,
+      entry.process.getRateLimits?.(),
+      entry.account,
+    );
+    sessionStore.ledger.record({
+      agent: sessionKey,
+      conversationId,
+      backend: entry.backend,
+      model: entry.process.getModel() ?? entry.model ?? model,
+      account: entry.account,
+    }, out);
+    const budgetEvents = sessionStore.budget.record(sessionKey, out.costUsd);
+    for (const event of budgetEvents) {
+      hudWs?.sendBudget(sessionKey, event);
+      events.publish({ type: "budget", agent: sessionKey, data: event });
+    }
+
+    // Persist session ID for cross-restart resume
+    if (out.sessionId) {
+      sessionStore.persistSession(
+        sessionKey,
+        out.sessionId,
+        entry.backend,
+        entry.model,
+        entry.cwd,
+        entry.account,
+      );
+    }
+    sessionStore.recordAccountUsage(sessionKey, out.costUsd);
+
+    if (out.toolsUsed?.length) {
+      logger.info(`bridge: tools used: ${out.toolsUsed.map(t => t.name).join(", ")}`);
+    }
+
+    // Push task completed
+    pushTask(sessionKey, conversationId, {
+      status: "completed",
+      durationMs: out.durationMs,
+      costUsd: out.costUsd,
+      numTurns: out.numTurns,
+    });
+
+    // Snapshot context & model while holding the queue slot (process may be recreated later)
+    return {
+      hudContext: entry.process.getContext(),
+      hudModel: formatModelName(entry.process.getModel() ?? model),
+      hudAccount: sessionStore.accountStatus(sessionKey),
+      /** Budget thresholds this turn crossed, appended to the reply. */
+      budgetNotice: budgetEvents.map((e) => `\n\n${e.message}`).join(""),
+    };
+  }
+
+  /** Conversations whose HUD a turn updates: the request's own, else every one mapped to the agent. */
+  function hudConversations(sessionKey: string, conversationId: string | undefined): string[] {
+    return conversationId ? [conversationId] : sessionStore.conversationsOf(sessionKey);
+  }
+
+  /** Task update for each of the agent's conversations (agent-wide when none is known). */
+  function pushTask(sessionKey: string, conversationId: string | undefined, data: TaskData): void {
+    const conversations = hudConversations(sessionKey, conversationId);
+    if (conversations.length === 0) {
+      hudWs?.sendTask(sessionKey, data);
+      events.publish({ type: "task", agent: sessionKey, data });
+    }
+    for (const conv of conversations) {
+      hudState.updateTask(conv, sessionKey, data);
+      hudWs?.sendTask(sessionKey, data, conv);
+      events.publish({ type: "task", agent: sessionKey, conversationId: conv, data });
+    }
+  }
+
+  /** HUD push outside the queue slot — refresh stale rate limits + send WS and local subscribers. */
+  function pushHud(sessionKey: string, conversationId: string | undefined, snapshot: ReturnType<typeof completeTurn>): void {
+    const conversations = hudConversations(sessionKey, conversationId);
+    if (conversations.length === 0) return;
+    // Fire and forget: don't block the response
+    (async () => {
+      const account = snapshot.hudAccount;
+      if (hudMonitor) await hudMonitor.notify(account?.name);
+      const hudData: HudData = {};
+
+      // Context from process snapshot
+      if (snapshot.hudContext) {
+        const total = snapshot.hudContext.contextWindow ?? 0;
+        hudData.context = {
+          used: snapshot.hudContext.contextTokens,
+          total,
+          percent: total ? Math.round((snapshot.hudContext.contextTokens / total) * 100) : 0,
+        };
+      }
+
+      // Rate limits of the login the session runs on (its pool account, or the default one)
+      if (account) hudData.account = account.name;
+      const limits = hudMonitor?.get(account?.name) ?? account?.rateLimits ?? {};
+      const hudLimit = (rl: RateLimitInfo | undefined) => rl?.resetsAt
+        ? { percent: rl.resetsAt * 1000 > Date.now() ? Math.round((rl.utilization ?? 0) * 100) : 0, resetIn: formatResetIn(rl.resetsAt) }
+        : undefined;
+      const limit5h = hudLimit(limits.five_hour);
+      const limit7d = hudLimit(limits.seven_day);
+      if (limit5h) hudData.limit5h = limit5h;
+      if (limit7d) hudData.limit7d = limit7d;
+
+      hudData.model = snapshot.hudModel;
+      for (const conv of conversations) {
+        hudState.updateHud(conv, sessionKey, hudData);
+        if (hudWs) {
+          logger.info(`hud-ws: sending hud_update convId=${conv.slice(0, 8)} data=${JSON.stringify(hudData)}`);
+          hudWs.send(conv, hudData, sessionKey);
+        }
+        events.publish({ type: "hud", agent: sessionKey, conversationId: conv, data: hudData });
+      }
+    })().catch((err) => logger.warn(`hud-ws: push failed — ${err}`));
+  }
+
+  /** Park a turn that is waiting on client tool results until the client posts them. */
+  function suspendTurn(sessionKey: string, calls: ToolCall[]): Promise<ResponseSink> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        suspendedTurns.delete(sessionKey);
+        reject(new Error(`No tool results received within ${TOOL_RESULT_TIMEOUT_MS / 1000}s`));
+      }, TOOL_RESULT_TIMEOUT_MS);
+      suspendedTurns.set(sessionKey, {
+        callIds: calls.map((c) => c.id),
+        resume: (sink) => {
+          clearTimeout(timer);
+          resolve(sink);
+        },
+      });
+    });
+  }
+
+  /** Hand the client's tool results to the paused turn and stream the rest of it on this response. */
+  async function resumeToolTurn(
+    sessionKey: string,
+    results: ChatMessage[],
+    res: ServerResponse,
+    isStreaming: boolean,
+    model: string,
+  ): Promise<void> {
+    const suspended = suspendedTurns.get(sessionKey)!;
+    suspendedTurns.delete(sessionKey);
+
+    const sink = openSink(res, isStreaming, model, () => {
+      const entry = sessionStore.getSession(sessionKey);
+      if (isStreaming && entry?.process.isBusy()) {
+        logger.info(`bridge: client disconnected, aborting turn for session=${sessionKey}`);
+        entry.process.abortTurn();
+      }
+    });
+    suspended.resume(sink);
+
+    const answered = new Set<string>();
+    for (const r of results) {
+      if (r.tool_call_id && toolBridge.resolveCall(sessionKey, r.tool_call_id, contentToString(r.content))) {
+        answered.add(r.tool_call_id);
+      } else {
+        logger.warn(`bridge: session=${sessionKey} tool result for unknown call ${r.tool_call_id ?? "(no id)"}`);
+      }
+    }
+    for (const id of suspended.callIds) {
+      if (!answered.has(id)) toolBridge.resolveCall(sessionKey, id, "No result was provided for this tool call.", true);
+    }
+    logger.info(`bridge: session=${sessionKey} resumed turn with ${answered.size} tool result(s)`);
+
+    await sink.finished;
+  }
+
+  /**
+   * Run one chat turn for either endpoint: inject or queue it, route it over
+   * the agent's fallback chain, retry once on a failed session, and keep
+   * budgets, metrics and the HUD up to date. The endpoint only supplies the
+   * wire format.
+   */
+  async function runChatTurn(request: TurnRequest, wire: TurnWire): Promise<void> {
+    const { sessionKey, apiKey, model, conversationId, input, btw, clientTools, systemPrompt } = request;
+
+    if (tryInject(sessionKey, input, btw)) {
+      wire.reply(INJECTED_NOTE);
+      return;
+    }
+
+    const refused = overBudget(sessionKey);
+    if (refused) {
+      if (wire.streaming()) wire.reply(refused.message);
+      else wire.refuse(refused.message, "budget_exceeded");
+      return;
+    }
+
+    /** Session whose turn this request is currently running (for abort on disconnect). */
+    let turnEntry: SessionEntry | undefined;
+    const queueAbort = new AbortController();
+    const streamingAtStart = wire.streaming();
+    wire.open(() => {
+      queueAbort.abort();
+      if (streamingAtStart && turnEntry?.process.isBusy()) {
+        logger.info(`bridge: client disconnected, aborting turn for session=${sessionKey}`);
+        turnEntry.process.abortTurn();
+      }
+    });
+
+    // /btw on a backend that cannot take input mid-run waits for the next turn
+    const queueOpts: QueueOptions = btw ? { ...getQueueOptions(sessionKey), policy: "queue" } : getQueueOptions(sessionKey);
+    const ticket = await sessionQueue.acquire(sessionKey, input, queueOpts, {
+      signal: queueAbort.signal,
+      onPosition: (position) => {
+        logger.info(`bridge: session=${sessionKey} queued at position ${position}/${queueOpts.maxDepth}`);
+        wire.queuePosition(position);
+      },
+    });
+
+    if (ticket.status === "cancelled") {
+      logger.info(`bridge: session=${sessionKey} client disconnected while queued`);
+      return;
+    }
+    if (ticket.status === "merged") {
+      logger.info(`bridge: session=${sessionKey} message merged into a later request`);
+      wire.reply("↪️ Merged into the next turn together with your newer message.");
+      return;
+    }
+    if (ticket.status === "rejected") {
+      const full = ticket.reason === "full";
+      logger.warn(`bridge: session=${sessionKey} ${full ? "queue full" : "busy"}, rejecting (policy=${queueOpts.policy})`);
+      metrics.recordBusyRejection(sessionKey, full ? "full" : "busy");
+      if (wire.streaming()) {
+        wire.reply(full
+          ? `⏳ Agent has too many pending requests (${queueOpts.maxDepth} queued). Please wait and try again.`
+          : `⏳ Agent is busy processing another request. Please wait and try again.`);
+      } else {
+        wire.refuse(full ? "Agent queue is full" : "Agent is busy");
+      }
+      return;
+    }
+
+    const turnText = ticket.text;
+    const turnAttachments = ticket.attachments;
+    /** Bridge prose ahead of the reply (crash, compaction, fallback and approval notices). */
+    let notice = "";
+    /** Budget notices after the reply. */
+    let trailer = "";
+
+    try {
+      const result = await ticket.run(async () => {
+        // Turns queued behind the one that used up a budget
+        const refusedNow = overBudget(sessionKey);
+        if (refusedNow) throw new Error(refusedNow.message);
+
+        const { effectiveModel } = resolveTurnModel(sessionKey, model);
+        // Models of the agent's fallback chain that are rate-limited or failing are skipped until they recover
+        const fallbackOn = fallback.enabled(sessionKey);
+        let turnModel = fallbackOn ? fallback.route(sessionKey, effectiveModel) : effectiveModel;
+        const lastAnswer = fallback.lastAnswer(sessionKey);
+
+        let toolsHash: string | undefined;
+        let createOpts: () => CreateSessionOpts = () => ({});
+        /** Recent exchanges for a backend that missed them (set when the turn moves across backends). */
+        let carried = "";
+
+        /** Live session on the turn's model; a fallback switch parks the current one for the way back. */
+        const openSession = async (): Promise<SessionEntry> => {
+          // The request's model passed the key's scope; a /model override or fallback must too
+          if (turnModel && !auth.allowsModel(apiKey, turnModel)) {
+            throw new Error(`API key "${apiKey!.name}" is not allowed to use model "${turnModel}"`);
+          }
+          const backend = sessionStore.resolveBackend(turnModel);
+          toolsHash = undefined;
+          if (clientTools) {
+            if (sessionStore.getBackend(backend)?.clientTools) {
+              toolsHash = toolBridge.register(sessionKey, clientTools);
+            } else {
+              logger.warn(`bridge: backend ${backend} cannot serve client tools, ignoring ${clientTools.length} tool(s)`);
+            }
+          }
+
+          let resumeSessionId: string | undefined;
+          const current = sessionStore.getSession(sessionKey);
+          if (fallbackOn && current && current.model !== turnModel) {
+            logger.info(`bridge: session=${sessionKey} switching ${modelKey(current.model)} → ${modelKey(turnModel)} (fallback)`);
+            if (current.backend !== backend) {
+              fallback.park(sessionKey, current.backend, current.process.getSessionId());
+              resumeSessionId = fallback.unpark(sessionKey, backend);
+            }
+            metrics.recordRestart(current.backend, "fallback");
+            await sessionStore.destroySession(sessionKey);
+          }
+
+          createOpts = () => {
+            const opts: CreateSessionOpts = {
+              cwd: commandHandler.getCwdForConversation(sessionKey),
+              model: turnModel,
+              ...(resumeSessionId ? { resumeSessionId } : {}),
+              ...(systemPrompt !== undefined ? { systemPrompt } : {}),
+              ...(toolsHash ? {
+                mcpServers: toolBridge.mcpServers(sessionKey),
+                toolsHash,
+                awaitingClient: () => toolBridge.isAwaitingClient(sessionKey),
+              } : {}),
+            };
+            // The parked session is resumed once; a recovery afterwards starts fresh
+            resumeSessionId = undefined;
+            return opts;
+          };
+          const session = await ensureSession(sessionKey, backend, createOpts, toolsHash, systemPrompt);
+
+          const movedBackend = lastAnswer.backend !== undefined && lastAnswer.backend !== session.backend;
+          carried = fallbackOn && movedBackend && (turnModel !== effectiveModel || lastAnswer.fellBack)
+            ? fallback.summary(sessionKey)
+            : "";
+          return session;
+        };
+
+        // Ensure session exists for this conversation
+        let entry = await openSession();
+        turnEntry = entry;
+        const startedAt = Date.now();
+        metrics.recordRequest({ agent: sessionKey, model: entry.model ?? model, backend: entry.backend });
+
+        /** The model wrote prose or tool calls for this turn; a retry would repeat them, so it fails instead. */
+        let emitted = false;
+        const onText = (text: string) => {
+          if (text) emitted = true;
+          wire.text(text);
+        };
+        const hooks: TurnHooks = {
+          onProgress: (event) => {
+            events.publish({ type: "progress", agent: sessionKey, conversationId, data: event });
+            wire.progress(event);
+          },
+        };
+        const { streamEvent } = wire;
+        if (streamEvent) {
+          hooks.onStreamEvent = (event) => {
+            if (event.type === "content_block_delta") emitted = true;
+            streamEvent(event);
+          };
+        }
+        const spend = watchSpend(sessionKey, () => entry.process.getModel() ?? turnModel, () => entry.process.abortTurn());
+        hooks.onUsage = spend.onUsage;
+
+        // Run the turn; with client tools, pause on each tool call until the client posts results
+        const runTurn = async (target: SessionEntry) => {
+          if (!toolsHash || !wire.toolCalls) return sendTurn(target, carried + turnText, onText, hooks, turnAttachments);
+          toolBridge.beginTurn(sessionKey);
+          try {
+            const turn = sendTurn(target, carried + turnText, onText, hooks, turnAttachments);
+            for (;;) {
+              const next = toolBridge.nextCalls(sessionKey);
+              const step = await Promise.race([
+                turn.then((out) => ({ kind: "done" as const, out })),
+                next.calls.then((calls) => ({ kind: "tools" as const, calls })),
+              ]).finally(next.cancel);
+              if (step.kind === "done") return step.out;
+
+              logger.info(`bridge: session=${sessionKey} waiting on client tools: ${step.calls.map((c) => c.name).join(", ")}`);
+              emitted = true;
+              await wire.toolCalls(step.calls);
+            }
+          } catch (err) {
+            if (target.process.isBusy()) target.process.abortTurn();
+            throw err;
+          } finally {
+            toolBridge.endTurn(sessionKey);
+          }
+        };
+
+        // Push task started
+        pushTask(sessionKey, conversationId, { status: "started", task: stripMetadata(turnText).slice(0, 200) });
+
+        wire.start();
+        // Crash/stall and compaction notices go out as prose ahead of the reply
+        const emitNotice = (text: string) => {
+          if (!text) return;
+          notice += text;
+          wire.notice(text);
+        };
+        emitNotice(pendingNotice(sessionKey));
+        if (turnModel !== effectiveModel) {
+          emitNotice(`↪️ Answered by ${modelLabel(turnModel)}: ${modelLabel(effectiveModel)} is ${fallback.describeBlock(effectiveModel) ?? "unavailable"}.\n\n`);
+        } else if (fallbackOn && lastAnswer.fellBack) {
+          emitNotice(`↩️ Back on ${modelLabel(effectiveModel)}.\n\n`);
+        }
+        turnWriters.set(sessionKey, emitNotice);
+
+        let out: SendMessageResult | undefined;
+        let retried = false;
+        try {
+          while (!out) {
+            try {
+              out = await runTurn(entry);
+            } catch (err) {
+              // Stopped at a spending cap, client disconnect or part of the answer already out → don't retry, just bail
+              const stopped = spend.stopped();
+              if (stopped) {
+                chargeStoppedTurn(sessionKey, entry, model, stopped, spend.usage(), startedAt, conversationId);
+                throw new Error(stopped.message);
+              }
+              if (wire.disconnected() || emitted) throw err;
+
+              // Rate-limited, or failed too often in a row → next model of the chain
+              sessionStore.recordAccountUsage(sessionKey);
+              const failed = turnModel;
+              const errMsg = err instanceof Error ? err.message : String(err);
+              const skipped = fallbackOn
+                && fallback.recordFailure(sessionKey, failed, errMsg, rejectedUntil(entry.process.getRateLimits?.()));
+              if (skipped) {
+                const next = fallback.next(sessionKey, effectiveModel, failed);
+                if (next === null || (next && !auth.allowsModel(apiKey, next))) throw err;
+                turnModel = next;
+                metrics.recordFallback(sessionKey, modelKey(failed), modelKey(next));
+                entry = await openSession();
+                turnEntry = entry;
+                retried = false;
+                emitNotice(`↪️ Answered by ${modelLabel(next)}: ${modelLabel(failed)} is ${fallback.describeBlock(failed)}.\n\n`);
+                continue;
+              }
+
+              if (retried) throw err;
+              retried = true;
+              entry = await recoverSession(sessionKey, entry, createOpts, err);
+              turnEntry = entry;
+              emitNotice(pendingNotice(sessionKey));
+            }
+          }
+        } finally {
+          turnWriters.delete(sessionKey);
+        }
+
+        if (fallbackOn) {
+          fallback.recordSuccess(sessionKey, turnModel, entry.backend, turnModel !== effectiveModel, stripMetadata(turnText), out.text);
+        }
+        const snapshot = completeTurn(sessionKey, entry, out, model, startedAt, conversationId);
+        trailer = (spend.stopped() ? `\n\n${spend.stopped()!.message}` : "") + snapshot.budgetNotice;
+        if (trailer) wire.notice(trailer);
+
+        // Streaming responses finish while holding the slot; skip the writes if the client already left
+        const streaming = wire.streaming();
+        if (streaming) {
+          if (wire.disconnected()) logger.info(`bridge: skipping SSE finish — client already disconnected`);
+          else await wire.finish(out, { notice, trailer });
+        }
+        return { out, snapshot, streaming };
+      });
+
+      pushHud(sessionKey, conversationId, result.snapshot);
+      scheduleAutoCompact(sessionKey);
+
+      if (!result.streaming) await wire.finish(result.out, { notice, trailer });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      logger.error(`bridge: REQUEST ERROR msg=${message}`);
+      metrics.recordTurnError(sessionKey);
+      wire.fail(message);
+    }
+  }
+
+  async function handleCompletions(req: IncomingMessage, res: ServerResponse, apiKey: ApiKeyEntry | null): Promise<void> {
     if (req.method !== "POST") {
       jsonResponse(res, 405, openAiError("Method not allowed", "invalid_request_error"));
       return;
@@ -216,6 +1274,8 @@ export function createBridgeServer(opts: BridgeOptions) {
       model?: string;
       messages?: ChatMessage[];
       stream?: boolean;
+      tools?: OpenAiTool[];
+      tool_choice?: OpenAiToolChoice;
     };
     try {
       body = JSON.parse(await readBody(req)) as typeof body;
@@ -230,302 +1290,331 @@ export function createBridgeServer(opts: BridgeOptions) {
       return;
     }
 
-    let model = typeof body.model === "string" ? body.model : "claude-code-cli";
-    // OpenClaw may send "provider/model" format — strip the provider prefix
-    if (model.includes("/")) {
-      model = model.split("/").pop()!;
-    }
-    // Parse agent name from model ID: "model(agent)" → agent, model
-    const parsed = parseModelId(model);
-    const agent = parsed.agent;
-    model = parsed.model;
-
+    const { agent, model } = resolveRequestModel(body.model);
     const isStreaming = body.stream !== false;
+    const progress = isStreaming && wantsProgress(req);
     const latestUserMsg = extractLatestUserMsg(messages);
 
-    if (!latestUserMsg) {
+    if (!latestUserMsg && !hasAttachments(latestUserContent(messages))) {
       jsonResponse(res, 400, openAiError("No user message found", "invalid_request_error"));
       return;
     }
 
-    // Extract conversationId and agentName from OpenClaw metadata
-    const senderMeta = extractSenderMeta(latestUserMsg);
-    // Use agentName as session key — session follows the person, not the conversation.
-    // This ensures context persists across private chats and group chats.
-    // Fallback: if agentName is missing but conversationId is present, resolve via mapping.
-    const resolvedAgent = senderMeta?.agentName
-      ?? (senderMeta?.conversationId ? sessionStore.resolveAgent(senderMeta.conversationId) : undefined)
-      ?? agent;
-    const sessionKey = resolvedAgent;
+    const { senderMeta, sessionKey } = resolveSessionKey(latestUserMsg, agent);
     // Use agentName for workspace resolution (workspace-linda, workspace-default, etc.)
-    const agentForCwd = resolvedAgent;
-    if (senderMeta?.conversationId && senderMeta.agentName) {
-      sessionStore.mapConversation(senderMeta.conversationId, senderMeta.agentName);
+    const agentForCwd = sessionKey;
+
+    const denied = auth.authorize(apiKey, sessionKey, model);
+    if (denied) {
+      logger.warn(`bridge: forbidden — ${denied}`);
+      jsonResponse(res, 403, openAiError(denied, "permission_error", "forbidden"));
+      return;
     }
 
     logger.info(
-      `bridge: request — session=${sessionKey} agent=${agentForCwd} model=${model} meta=${JSON.stringify(senderMeta)}`,
+      `bridge: request — session=${sessionKey} agent=${agentForCwd} model=${model} key=${apiKey?.name ?? "-"} meta=${JSON.stringify(senderMeta)}`,
     );
 
-    // Try command handling first (handles /new, /reset, etc.)
-    if (latestUserMsg.trim().startsWith("/")) {
-      let cmdReply = "";
-      const cmdResult = await commandHandler.handle(latestUserMsg, {
-        conversationId: sessionKey,
-        sendChunk: (text) => { cmdReply = text; },
-        sendComplete: (text) => { cmdReply = text; },
-        sendError: (text) => { cmdReply = `Error: ${text}`; },
+    // Tool results for a paused turn → resume it (the turn still holds the queue slot)
+    const toolResults = trailingToolResults(messages);
+    if (toolResults.length > 0 && suspendedTurns.has(sessionKey)) {
+      await resumeToolTurn(sessionKey, toolResults, res, isStreaming, model);
+      return;
+    }
+
+    /** Reply with a single message (command output, queue notices). */
+    const reply = (text: string) => {
+      if (isStreaming) {
+        sseFullMessage(res, text, model);
+        return;
+      }
+      jsonResponse(res, 200, {
+        id: `chatcmpl-${Date.now()}`,
+        object: "chat.completion",
+        created: Math.floor(Date.now() / 1000),
+        model,
+        choices: [{ index: 0, message: { role: "assistant", content: text }, finish_reason: "stop" }],
+        usage: toOpenAiUsage(undefined),
       });
-      if (cmdResult.handled) {
-        if (isStreaming) {
-          sseFullMessage(res, cmdReply, model);
-        } else {
-          jsonResponse(res, 200, {
+    };
+
+    // Try command handling first (handles /new, /reset, etc.)
+    if (toolResults.length === 0 && latestUserMsg.trim().startsWith("/")) {
+      const cmdReply = await runCommand(latestUserMsg, sessionKey, apiKey);
+      if (cmdReply !== null) {
+        reply(cmdReply);
+        return;
+      }
+    }
+
+    // Client-defined tools (OpenAI function calling), exposed to Claude via the bridge's MCP server
+    const clientTools = Array.isArray(body.tools)
+      ? body.tools.filter((t) => t?.type === "function" && typeof t.function?.name === "string")
+      : [];
+    const useClientTools = clientTools.length > 0 && body.tool_choice !== "none";
+
+    const btwText = toolResults.length === 0 ? parseBtw(latestUserMsg) : null;
+
+    // Tool results without a paused turn (e.g. after a bridge restart) are passed on as text
+    let promptText = toolResults.length > 0 ? formatToolResults(messages, toolResults) : btwText ?? latestUserMsg;
+    const choiceHint = useClientTools ? toolChoiceHint(body.tool_choice) : undefined;
+    if (choiceHint) promptText += `\n\n${choiceHint}`;
+
+    const input = toolResults.length > 0
+      ? { text: promptText, attachments: [] }
+      : await prepareAttachments(messages, agentForCwd, promptText);
+
+    /** Response the turn writes to; swapped when the client resumes a paused turn with tool results. */
+    let sink!: ResponseSink;
+    let initialSink!: ResponseSink;
+    const onText = (text: string) => {
+      sink.text += text;
+      if (sink.isStreaming && !sink.disconnected) sseDelta(sink.res, sink.id, sink.created, model, text);
+    };
+
+    await runChatTurn(
+      { sessionKey, apiKey, model, conversationId: senderMeta?.conversationId, input, btw: btwText !== null, clientTools: useClientTools ? clientTools : undefined },
+      {
+        streaming: () => sink?.isStreaming ?? isStreaming,
+        disconnected: () => sink.disconnected,
+        reply,
+        refuse: (message, code) => jsonResponse(res, 429, openAiError(message, "rate_limit_error", code)),
+        // For streaming: SSE headers and keep-alive start up front so queued clients stay connected
+        open: (onDisconnect) => {
+          initialSink = openSink(res, isStreaming, model, onDisconnect);
+          sink = initialSink;
+        },
+        queuePosition: (position) => {
+          if (isStreaming && !initialSink.disconnected) sseQueueStatus(res, initialSink.id, initialSink.created, model, position);
+        },
+        start: () => {},
+        text: onText,
+        notice: onText,
+        progress: (event) => {
+          if (progress && !sink.disconnected && !sink.res.writableEnded) sseProgress(sink.res, sink.id, sink.created, model, event);
+        },
+        toolCalls: async (calls) => {
+          writeToolCalls(sink, model, calls);
+          sink = await suspendTurn(sessionKey, calls);
+        },
+        finish: async (out, prose) => {
+          const workDir = process.env.OPENCLAW_WORKSPACE
+            ?? `${process.env.HOME}/.openclaw/workspace`;
+          if (sink.isStreaming) {
+            // Upload any local image files (scan prose text)
+            try {
+              const urls = await findAndUploadImages(out.text, workDir, logger);
+              for (const url of urls) {
+                sseDelta(sink.res, sink.id, sink.created, model, `\n\n![image](${url})`);
+              }
+            } catch (err) {
+              logger.warn(`bridge: image upload failed: ${err}`);
+            }
+            sseFinish(sink.res, sink.id, sink.created, model, toOpenAiUsage(out.usage), turnExtras(out));
+            return;
+          }
+
+          // Non-streaming response (after a tool round-trip, only the text since the resume)
+          let content = sink === initialSink ? prose.notice + out.text + prose.trailer : sink.text;
+          try {
+            content = await replaceImagePaths(content, workDir, logger);
+          } catch { /* ignore */ }
+          jsonResponse(sink.res, 200, {
             id: `chatcmpl-${Date.now()}`,
             object: "chat.completion",
             created: Math.floor(Date.now() / 1000),
             model,
-            choices: [{ index: 0, message: { role: "assistant", content: cmdReply }, finish_reason: "stop" }],
-            usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+            choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+            usage: toOpenAiUsage(out.usage),
+            ...turnExtras(out),
           });
-        }
-        return;
-      }
-    }
+        },
+        fail: (message) => {
+          if (sink.res.writableEnded || sink.res.destroyed) return;
+          if (sink.isStreaming) {
+            sseError(sink.res, message);
+          } else {
+            // A turn that failed midway still returns what it produced
+            jsonResponse(sink.res, 500, sink.text ? { ...openAiError(message, "server_error"), partial_content: sink.text } : openAiError(message, "server_error"));
+          }
+        },
+      },
+    );
+  }
 
-    const sessionMutex = getMutex(sessionKey);
-    if (sessionMutex.isLocked()) {
-      logger.warn(`bridge: session=${sessionKey} mutex locked, returning busy`);
-      if (isStreaming) {
-        sseFullMessage(res, `⏳ Agent is busy processing another request. Please wait and try again.`, model);
-      } else {
-        jsonResponse(res, 429, openAiError("Agent is busy (mutex locked)", "rate_limit_error"));
-      }
+  /**
+   * Anthropic Messages API. Shares sessions, commands and the queue with
+   * /v1/chat/completions; Claude sessions forward the CLI's own stream events.
+   */
+  async function handleMessages(req: IncomingMessage, res: ServerResponse, apiKey: ApiKeyEntry | null): Promise<void> {
+    if (req.method !== "POST") {
+      jsonResponse(res, 405, anthropicError("invalid_request_error", "Method not allowed"));
       return;
     }
 
+    let body: { model?: string; messages?: ChatMessage[]; stream?: boolean; system?: unknown };
     try {
-      const result = await sessionMutex.run(async () => {
-        // Resolve the effective model: command override > request body
-        const cmdModel = commandHandler.getModelForConversation(sessionKey);
-        const effectiveModel = cmdModel ?? (model !== "claude-code-cli" ? model : undefined);
-        const requestedBackend = sessionStore.resolveBackend(effectiveModel);
+      body = JSON.parse(await readBody(req)) as typeof body;
+    } catch {
+      jsonResponse(res, 400, anthropicError("invalid_request_error", "Invalid JSON body"));
+      return;
+    }
 
-        // Ensure session exists for this conversation
-        let entry = sessionStore.getSession(sessionKey);
+    const systemPrompt = parseSystemPrompt(body.system);
+    if (systemPrompt === null) {
+      jsonResponse(res, 400, anthropicError("invalid_request_error", "system must be a string or an array of text blocks"));
+      return;
+    }
 
-        // Backend mismatch → destroy and recreate
-        if (entry && entry.process.isAlive() && entry.backend !== requestedBackend) {
-          logger.info(`bridge: backend mismatch (${entry.backend} → ${requestedBackend}), recreating session`);
-          await sessionStore.destroySession(sessionKey);
-          entry = undefined;
-        }
+    const messages = body.messages;
+    if (!Array.isArray(messages) || messages.length === 0) {
+      jsonResponse(res, 400, anthropicError("invalid_request_error", "messages array is required"));
+      return;
+    }
 
-        if (!entry || !entry.process.isAlive()) {
-          const cwd = commandHandler.getCwdForConversation(agentForCwd);
-          entry = sessionStore.createSession(sessionKey, { cwd, model: effectiveModel });
-        } else {
-          entry.lastActivity = Date.now();
-        }
+    const { agent, model } = resolveRequestModel(body.model);
+    // Unlike chat completions, the Messages API defaults to non-streaming
+    const isStreaming = body.stream === true;
+    const progress = isStreaming && wantsProgress(req);
+    const latestUserMsg = extractLatestUserMsg(messages);
 
-        const sseId = `chatcmpl-${Date.now()}`;
-        const sseCreated = Math.floor(Date.now() / 1000);
-
-        // For streaming: send SSE headers, keep-alive, and abort on client disconnect
-        let keepAliveTimer: ReturnType<typeof setInterval> | null = null;
-        let clientDisconnected = false;
-        if (isStreaming) {
-          sseStart(res);
-          keepAliveTimer = setInterval(() => {
-            sseDelta(res, sseId, sseCreated, model, "");
-          }, 5000);
-          res.on("close", () => {
-            clientDisconnected = true;
-            if (keepAliveTimer) { clearInterval(keepAliveTimer); keepAliveTimer = null; }
-            if (entry?.process.isBusy()) {
-              logger.info(`bridge: client disconnected, aborting turn for session=${sessionKey}`);
-              entry.process.abortTurn();
-            }
-          });
-        }
+    if (!latestUserMsg && !hasAttachments(latestUserContent(messages))) {
+      jsonResponse(res, 400, anthropicError("invalid_request_error", "No user message found"));
+      return;
+    }
 
-        const onText = isStreaming
-          ? (text: string) => {
-              if (!clientDisconnected) sseDelta(res, sseId, sseCreated, model, text);
-            }
-          : undefined;
+    const { senderMeta, sessionKey } = resolveSessionKey(latestUserMsg, agent);
 
-        // Push task started
-        if (hudWs) hudWs.sendTask(sessionKey, { status: "started", task: stripMetadata(latestUserMsg).slice(0, 200) });
+    const denied = auth.authorize(apiKey, sessionKey, model);
+    if (denied) {
+      logger.warn(`bridge: forbidden — ${denied}`);
+      jsonResponse(res, 403, anthropicError("permission_error", denied));
+      return;
+    }
 
-        let out;
-        try {
-          out = await entry.process.sendMessage(latestUserMsg, onText);
-        } catch (err) {
-          // Client disconnect → don't retry, just bail
-          if (clientDisconnected) throw err;
-
-          const errMsg = err instanceof Error ? err.message : String(err);
-          logger.warn(`bridge: sendMessage failed: ${errMsg}, recreating session...`);
-          // Stale persisted session → clear and start fresh
-          sessionStore.clearPersistedSession(sessionKey);
-          await sessionStore.destroySession(sessionKey);
-          const cwd = commandHandler.getCwdForConversation(agentForCwd);
-          entry = sessionStore.createSession(sessionKey, { cwd, model: effectiveModel });
-          out = await entry.process.sendMessage(latestUserMsg, onText);
-        }
+    logger.info(
+      `bridge: messages request — session=${sessionKey} model=${model} stream=${isStreaming} key=${apiKey?.name ?? "-"} meta=${JSON.stringify(senderMeta)}`,
+    );
 
-        if (keepAliveTimer) clearInterval(keepAliveTimer);
-
-        // Persist session ID for cross-restart resume
-        if (out.sessionId) {
-          sessionStore.persistSession(
-            sessionKey,
-            out.sessionId,
-            entry.backend,
-            entry.model,
-            entry.cwd,
-          );
-        }
+    /** Reply with a single text block (command output, queue notices). */
+    const replyText = (text: string) => {
+      const message = new AnthropicMessageBuilder(model, isStreaming ? res : undefined);
+      if (isStreaming && !res.headersSent) sseStart(res);
+      message.start();
+      message.appendText(text);
+      if (isStreaming) message.finish(toAnthropicUsage(undefined));
+      else jsonResponse(res, 200, message.toMessage(toAnthropicUsage(undefined)));
+    };
 
-        // Skip remaining SSE writes if client already disconnected
-        if (isStreaming && clientDisconnected) {
-          logger.info(`bridge: skipping SSE finish — client already disconnected`);
-          return { result: out };
-        }
+    if (latestUserMsg.trim().startsWith("/")) {
+      const cmdReply = await runCommand(latestUserMsg, sessionKey, apiKey);
+      if (cmdReply !== null) {
+        replyText(cmdReply);
+        return;
+      }
+    }
 
-        // Upload any local image files (scan prose text)
-        if (isStreaming && out) {
+    const btwText = parseBtw(latestUserMsg);
+    const input = await prepareAttachments(messages, sessionKey, btwText ?? latestUserMsg);
+    let disconnected = false;
+    const message = new AnthropicMessageBuilder(model, isStreaming ? res : undefined);
+
+    await runChatTurn(
+      { sessionKey, apiKey, model, conversationId: senderMeta?.conversationId, input, btw: btwText !== null, systemPrompt },
+      {
+        streaming: () => isStreaming,
+        disconnected: () => disconnected,
+        reply: replyText,
+        refuse: (text) => jsonResponse(res, 429, anthropicError("rate_limit_error", text)),
+        open: (onDisconnect) => {
+          let keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+          if (isStreaming) {
+            sseStart(res);
+            keepAliveTimer = setInterval(() => {
+              if (!res.writableEnded) sseEvent(res, "ping", {});
+            }, 5000);
+          }
+          res.on("close", () => {
+            if (keepAliveTimer) { clearInterval(keepAliveTimer); keepAliveTimer = null; }
+            if (res.writableEnded) return;
+            disconnected = true;
+            onDisconnect();
+          });
+        },
+        queuePosition: (position) => {
+          if (isStreaming && !disconnected) sseEvent(res, "queue_status", { position });
+        },
+        start: () => message.start(),
+        text: (text) => message.text(text),
+        notice: (text) => message.appendText(text),
+        streamEvent: (event) => message.streamEvent(event),
+        progress: (event) => {
+          if (progress && !disconnected && !res.writableEnded) sseEvent(res, "progress", { progress: event });
+        },
+        finish: async (out) => {
+          // Upload any local image files (scan prose text)
           const workDir = process.env.OPENCLAW_WORKSPACE
             ?? `${process.env.HOME}/.openclaw/workspace`;
           try {
             const urls = await findAndUploadImages(out.text, workDir, logger);
-            for (const url of urls) {
-              sseDelta(res, sseId, sseCreated, model, `\n\n![image](${url})`);
-            }
+            for (const url of urls) message.appendText(`\n\n![image](${url})`);
           } catch (err) {
             logger.warn(`bridge: image upload failed: ${err}`);
           }
-        }
-
-        if (isStreaming) {
-          const openaiUsage = out.usage ? {
-            prompt_tokens: out.usage.input_tokens,
-            completion_tokens: out.usage.output_tokens,
-            total_tokens: out.usage.input_tokens + out.usage.output_tokens,
-            cache_read_input_tokens: out.usage.cache_read_input_tokens,
-            cache_creation_input_tokens: out.usage.cache_creation_input_tokens,
-          } : undefined;
-          const extra: Record<string, unknown> = {};
-          if (out.costUsd !== undefined) extra.cost_usd = out.costUsd;
-          if (out.rateLimit) extra.rate_limit = out.rateLimit;
-          if (out.numTurns !== undefined) extra.num_turns = out.numTurns;
-          if (out.durationMs !== undefined) extra.duration_ms = out.durationMs;
-          if (out.context) extra.context = out.context;
-          sseFinish(res, sseId, sseCreated, model, openaiUsage, Object.keys(extra).length > 0 ? extra : undefined);
-        }
-
-        if (out.toolsUsed?.length) {
-          logger.info(`bridge: tools used: ${out.toolsUsed.map(t => t.name).join(", ")}`);
-        }
-
-        // Push task completed
-        if (hudWs) hudWs.sendTask(sessionKey, {
-          status: "completed",
-          durationMs: out.durationMs,
-          costUsd: out.costUsd,
-          numTurns: out.numTurns,
-        });
-
-        // Snapshot context & model inside mutex (process may be recreated later)
-        const hudContext = entry.process.getContext();
-        const hudModel = formatModelName(entry.process.getModel() ?? model);
-
-        return { result: out, hudContext, hudModel };
-      });
-
-      // HUD push outside mutex — notify + read status file + send WS
-      if (hudWs && senderMeta?.conversationId) {
-        // Fire and forget: don't block the response
-        (async () => {
-          if (hudMonitor) await hudMonitor.notify();
-          const hudData: HudData = {};
-
-          // Context from process snapshot
-          if (result.hudContext) {
-            const total = result.hudContext.contextWindow ?? 0;
-            hudData.context = {
-              used: result.hudContext.contextTokens,
-              total,
-              percent: total ? Math.round((result.hudContext.contextTokens / total) * 100) : 0,
-            };
+          if (isStreaming) message.finish(toAnthropicUsage(out.usage), turnExtras(out));
+          else jsonResponse(res, 200, message.toMessage(toAnthropicUsage(out.usage), turnExtras(out)));
+        },
+        fail: (errMessage) => {
+          if (res.writableEnded || res.destroyed) return;
+          if (isStreaming) {
+            sseEvent(res, "error", anthropicError("api_error", errMessage));
+            res.end();
+          } else {
+            jsonResponse(res, 500, anthropicError("api_error", errMessage));
           }
+        },
+      },
+    );
+  }
 
-          // Rate limits from status file
-          try {
-            const sf = JSON.parse(readFileSync("/tmp/claude-status.json", "utf-8")) as Record<string, unknown>;
-            if (sf.limit5h) hudData.limit5h = sf.limit5h as HudData["limit5h"];
-            if (sf.limit7d) hudData.limit7d = sf.limit7d as HudData["limit7d"];
-          } catch { /* status file unavailable */ }
-
-          hudData.model = result.hudModel;
-          logger.info(`hud-ws: sending hud_update convId=${senderMeta.conversationId!.slice(0, 8)} data=${JSON.stringify(hudData)}`);
-          hudWs.send(senderMeta.conversationId!, hudData);
-        })().catch((err) => logger.warn(`hud-ws: push failed — ${err}`));
-      }
+  function handleRequest(req: IncomingMessage, res: ServerResponse): void {
+    const url = req.url ?? "";
 
-      // Non-streaming response
-      if (!isStreaming) {
-        const workDir = process.env.OPENCLAW_WORKSPACE
-          ?? `${process.env.HOME}/.openclaw/workspace`;
-        let content = result.result.text;
-        try {
-          content = await replaceImagePaths(content, workDir, logger);
-        } catch { /* ignore */ }
-        const nonStreamUsage = result.result.usage ? {
-          prompt_tokens: result.result.usage.input_tokens,
-          completion_tokens: result.result.usage.output_tokens,
-          total_tokens: result.result.usage.input_tokens + result.result.usage.output_tokens,
-          cache_read_input_tokens: result.result.usage.cache_read_input_tokens,
-          cache_creation_input_tokens: result.result.usage.cache_creation_input_tokens,
-        } : { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
-
-        const nonStreamExtra: Record<string, unknown> = {};
-        if (result.result.costUsd !== undefined) nonStreamExtra.cost_usd = result.result.costUsd;
-        if (result.result.rateLimit) nonStreamExtra.rate_limit = result.result.rateLimit;
-        if (result.result.numTurns !== undefined) nonStreamExtra.num_turns = result.result.numTurns;
-        if (result.result.durationMs !== undefined) nonStreamExtra.duration_ms = result.result.durationMs;
-        if (result.result.context) nonStreamExtra.context = result.result.context;
-
-        jsonResponse(res, 200, {
-          id: `chatcmpl-${Date.now()}`,
-          object: "chat.completion",
-          created: Math.floor(Date.now() / 1000),
-          model,
-          choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
-          usage: nonStreamUsage,
-          ...nonStreamExtra,
-        });
-      }
-    } catch (err) {
-      const message = err instanceof Error ? err.message : "Unknown error";
-      logger.error(`bridge: REQUEST ERROR msg=${message}`);
+    // Client-tool MCP server used by Claude sessions (see ToolBridge); the URL token is the credential
+    if (url.startsWith(`${MCP_PATH}/`)) {
+      const token = url.slice(MCP_PATH.length + 1).split("?")[0];
+      toolBridge.handleRequest(token, req, res).catch((err) => {
+        logger.error(`bridge: mcp error: ${err}`);
+        if (!res.headersSent) res.writeHead(500).end();
+      });
+      return;
+    }
 
-      if (res.writableEnded || res.destroyed) return;
+    // Anthropic SDKs may append query params (e.g. ?beta=true)
+    const isMessages = url.split("?")[0] === "/v1/messages";
 
-      if (isStreaming) {
-        sseError(res, message);
-      } else {
-        jsonResponse(res, 500, openAiError(message, "server_error"));
-      }
+    const authResult = auth.authenticate(req);
+    if (!authResult.ok) {
+      logger.warn(`bridge: unauthorized ${req.method} ${url} — ${authResult.message}`);
+      jsonResponse(res, 401, isMessages
+        ? anthropicError("authentication_error", authResult.message)
+        : openAiError(authResult.message, "invalid_request_error", "invalid_api_key"));
+      return;
     }
-  }
+    const apiKey = authResult.key;
 
-  function handleRequest(req: IncomingMessage, res: ServerResponse): void {
-    const url = req.url ?? "";
+    if (isMessages) {
+      handleMessages(req, res, apiKey).catch((err) => {
+        logger.error(`bridge: unhandled error: ${err}`);
+        if (!res.headersSent) {
+          jsonResponse(res, 500, anthropicError("api_error", "Internal server error"));
+        }
+      });
+      return;
+    }
 
     if (url === "/v1/chat/completions") {
-      handleCompletions(req, res).catch((err) => {
+      handleCompletions(req, res, apiKey).catch((err) => {
         logger.error(`bridge: unhandled error: ${err}`);
         if (!res.headersSent) {
           jsonResponse(res, 500, openAiError("Internal server error", "server_error"));
@@ -534,11 +1623,52 @@ export function createBridgeServer(opts: BridgeOptions) {
       return;
     }
 
-    // Models endpoint
+    // Session admin API for ops tooling
+    if (url.split("?")[0] === SESSIONS_PATH || url.startsWith(`${SESSIONS_PATH}/`)) {
+      handleSessionAdmin(req, res, {
+        sessionStore,
+        logger,
+        authorizeAgent: (agent) => auth.authorizeAgent(apiKey, agent),
+        exclusive: (key, fn) => sessionQueue.exclusive(key, fn),
+      }).catch((err) => {
+        logger.error(`bridge: session admin error: ${err}`);
+        if (!res.headersSent) {
+          jsonResponse(res, 500, openAiError("Internal server error", "server_error"));
+        }
+      });
+      return;
+    }
+
+    // Usage ledger export for finance reporting
+    if (url.split("?")[0] === USAGE_PATH) {
+      handleUsageExport(req, res, sessionStore.ledger, (agent) => auth.authorizeAgent(apiKey, agent));
+      return;
+    }
+
+    // Live HUD/task/tool/session events for local clients
+    if (url.split("?")[0] === EVENTS_PATH) {
+      events.handleRequest(req, res, (agent) => auth.authorizeAgent(apiKey, agent));
+      return;
+    }
+
+    // Prometheus scrape endpoint
+    if (url.split("?")[0] === METRICS_PATH) {
+      const payload = metrics.render(sessionStore.getCapacity());
+      res.writeHead(200, {
+        "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+        "Content-Length": Buffer.byteLength(payload),
+      });
+      res.end(payload);
+      return;
+    }
+
+    // Models endpoint (limited to the key's model scope)
     if (url === "/v1/models" || url.startsWith("/v1/models/")) {
       jsonResponse(res, 200, {
         object: "list",
-        data: modelList.map((m) => ({ id: m.id, object: "model", owned_by: m.owned_by })),
+        data: modelList
+          .filter((m) => auth.allowsModel(apiKey, m.id))
+          .map((m) => ({ id: m.id, object: "model", owned_by: m.owned_by })),
       });
       return;
     }
@@ -576,6 +1706,7 @@ export function createBridgeServer(opts: BridgeOptions) {
           resolve();
           return;
         }
+        events.close();
         server.close(() => {
           server = null;
           resolve();
@@ -0,0 +1,234 @@
+import type { TurnUsage } from "./claude-process.js";
+import { DEFAULT_PRICES, computeCost, priceFor, type PriceTable } from "./pricing.js";
+import { periodStart, type UsageLedger } from "./usage-ledger.js";
+
+type Logger = {
+  info: (msg: string) => void;
+  warn: (msg: string) => void;
+  error: (msg: string) => void;
+};
+
+/** Spending caps in USD; unset ones do not apply. */
+export type BudgetLimits = {
+  /** Most one turn may cost; a running turn whose estimate passes it is stopped. */
+  perTurnUsd?: number;
+  /** Spend per calendar day (local time); new turns are refused once it is used up. */
+  perDayUsd?: number;
+  /** Spend per calendar month. */
+  perMonthUsd?: number;
+  /** Fractions of the daily and monthly budget that post a warning (default: [0.8]). */
+  warnAt?: number[];
+};
+
+export interface BudgetConfig {
+  /** Caps on all agents together. */
+  global?: BudgetLimits;
+  defaults?: BudgetLimits;
+  /** Per-agent overrides (key = lowercase agent name), merged field by field over the defaults. */
+  agents?: Record<string, BudgetLimits>;
+}
+
+/** A budget threshold crossed or a cap hit, for the chat and the HUD. */
+export type BudgetEvent = {
+  type: "warning" | "refused" | "stopped";
+  /** Agent name, or "all agents" for the global budget. */
+  scope: string;
+  period: "turn" | "day" | "month";
+  spentUsd: number;
+  limitUsd: number;
+  message: string;
+};
+
+/** The most a turn may still cost, and the cap that sets it. */
+export type TurnAllowance = { usd: number; scope: string; period: BudgetEvent["period"]; limitUsd: number };
+
+export const DEFAULT_WARN_AT = [0.8];
+
+const GLOBAL_SCOPE = "all agents";
+const PERIOD_NAMES = { turn: "per-turn cap", day: "daily budget", month: "monthly budget" } as const;
+const RESETS = { day: "at midnight", month: "on the 1st" } as const;
+
+type Spend = { day: number; month: number };
+
+function usd(n: number): string {
+  return `$${n.toFixed(2)}`;
+}
+
+/**
+ * Per-agent and global spending caps. Spend of the current day and month
+ * is seeded from the usage ledger (so caps survive restarts) and kept up to
+ * date in memory from each completed turn.
+ */
+export class BudgetGuard {
+  private config: BudgetConfig;
+  private ledger: UsageLedger;
+  private prices: PriceTable;
+  private logger: Logger;
+  private spend = new Map<string, Spend>();
+  private total: Spend = { day: 0, month: 0 };
+  private dayStart = 0;
+  private monthStart = 0;
+
+  constructor(config: BudgetConfig | undefined, ledger: UsageLedger, prices: PriceTable | undefined, logger: Logger) {
+    this.config = config ?? {};
+    this.ledger = ledger;
+    this.prices = prices ?? DEFAULT_PRICES;
+    this.logger = logger;
+  }
+
+  /** Any cap configured at all. */
+  get enabled(): boolean {
+    const has = (l: BudgetLimits | undefined) =>
+      l?.perTurnUsd !== undefined || l?.perDayUsd !== undefined || l?.perMonthUsd !== undefined;
+    return has(this.config.global) || has(this.config.defaults) || Object.values(this.config.agents ?? {}).some(has);
+  }
+
+  /** Effective caps of an agent (defaults merged with its overrides). */
+  limitsFor(agent: string): BudgetLimits {
+    const merged: BudgetLimits = { ...this.config.defaults };
+    for (const [key, value] of Object.entries(this.config.agents?.[agent.toLowerCase()] ?? {})) {
+      if (value !== undefined) (merged as Record<string, unknown>)[key] = value;
+    }
+    return merged;
+  }
+
+  /** Spend of an agent (or of all agents) today and this month. */
+  spent(agent?: string): Spend {
+    this.roll();
+    return agent === undefined ? { ...this.total } : { ...(this.spend.get(agent.toLowerCase()) ?? { day: 0, month: 0 }) };
+  }
+
+  /** Why a new turn of the agent must not start (null when it may). */
+  check(agent: string): BudgetEvent | null {
+    for (const { scope, limits, spend } of this.scopes(agent)) {
+      for (const period of ["day", "month"] as const) {
+        const limit = period === "day" ? limits.perDayUsd : limits.perMonthUsd;
+        if (limit === undefined || spend[period] < limit) continue;
+        return {
+          type: "refused",
+          scope,
+          period,
+          spentUsd: spend[period],
+          limitUsd: limit,
+          message: `🛑 The ${PERIOD_NAMES[period]} of ${scope} is used up (${usd(spend[period])} of ${usd(limit)}); ` +
+            `new turns are refused until it resets ${RESETS[period]}.`,
+        };
+      }
+    }
+    return null;
+  }
+
+  /** The most the agent's next turn may cost under every cap (undefined when none applies). */
+  allowance(agent: string): TurnAllowance | undefined {
+    let tightest: TurnAllowance | undefined;
+    const consider = (candidate: TurnAllowance) => {
+      if (!tightest || candidate.usd < tightest.usd) tightest = candidate;
+    };
+    for (const { scope, limits, spend } of this.scopes(agent)) {
+      if (limits.perTurnUsd !== undefined) {
+        consider({ usd: limits.perTurnUsd, scope, period: "turn", limitUsd: limits.perTurnUsd });
+      }
+      if (limits.perDayUsd !== undefined) {
+        consider({ usd: limits.perDayUsd - spend.day, scope, period: "day", limitUsd: limits.perDayUsd });
+      }
+      if (limits.perMonthUsd !== undefined) {
+        consider({ usd: limits.perMonthUsd - spend.month, scope, period: "month", limitUsd: limits.perMonthUsd });
+      }
+    }
+    return tightest;
+  }
+
+  /** Running cost of a turn from its usage so far (undefined when the model has no price). */
+  estimate(model: string | undefined, usage: TurnUsage): number | undefined {
+    const price = priceFor(this.prices, model);
+    return price ? computeCost(usage, price) : undefined;
+  }
+
+  /** Chat notice and HUD event for a turn stopped at its allowance. */
+  stopped(allowance: TurnAllowance, estimateUsd: number): BudgetEvent {
+    const cap = allowance.period === "turn"
+      ? `the ${PERIOD_NAMES.turn} of ${usd(allowance.limitUsd)}`
+      : `the ${PERIOD_NAMES[allowance.period]} of ${allowance.scope} (${usd(allowance.limitUsd)})`;
+    return {
+      type: "stopped",
+      scope: allowance.scope,
+      period: allowance.period,
+      spentUsd: estimateUsd,
+      limitUsd: allowance.limitUsd,
+      message: `🛑 Turn stopped at about ${usd(estimateUsd)}: it would exceed ${cap}.`,
+    };
+  }
+
+  /** Add a finished turn's cost; returns the warnings for thresholds it crossed. */
+  record(agent: string, costUsd: number | undefined): BudgetEvent[] {
+    if (!costUsd) return [];
+    this.roll();
+    const key = agent.toLowerCase();
+    const before = this.spend.get(key) ?? { day: 0, month: 0 };
+    const totalBefore = this.total;
+    this.spend.set(key, { day: before.day + costUsd, month: before.month + costUsd });
+    this.total = { day: totalBefore.day + costUsd, month: totalBefore.month + costUsd };
+
+    const events: BudgetEvent[] = [];
+    for (const { scope, limits, spend } of this.scopes(agent)) {
+      const prev = scope === GLOBAL_SCOPE ? totalBefore : before;
+      for (const period of ["day", "month"] as const) {
+        const limit = period === "day" ? limits.perDayUsd : limits.perMonthUsd;
+        if (limit === undefined) continue;
+        // Only the highest threshold this turn crossed
+        const crossed = [...(limits.warnAt ?? DEFAULT_WARN_AT), 1]
+          .filter((t) => prev[period] < t * limit && spend[period] >= t * limit)
+          .sort((a, b) => b - a)[0];
+        if (crossed === undefined) continue;
+        const message = crossed >= 1
+          ? `🛑 The ${PERIOD_NAMES[period]} of ${scope} is used up (${usd(spend[period])} of ${usd(limit)}).`
+          : `⚠️ ${Math.round((spend[period] / limit) * 100)}% of the ${PERIOD_NAMES[period]} of ${scope} used ` +
+            `(${usd(spend[period])} of ${usd(limit)}).`;
+        events.push({ type: "warning", scope, period, spentUsd: spend[period], limitUsd: limit, message });
+      }
+    }
+    for (const e of events) this.logger.warn(`budget: ${e.message}`);
+    return events;
+  }
+
+  // --- Internal ---
+
+  /** The agent's own caps and the global ones, each with the spend it counts. */
+  private scopes(agent: string): Array<{ scope: string; limits: BudgetLimits; spend: Spend }> {
+    this.roll();
+    const scopes = [{ scope: agent, limits: this.limitsFor(agent), spend: this.spend.get(agent.toLowerCase()) ?? { day: 0, month: 0 } }];
+    if (this.config.global) scopes.push({ scope: GLOBAL_SCOPE, limits: this.config.global, spend: this.total });
+    return scopes;
+  }
+
+  /** Start a new day or month when the calendar moved on; the first call loads this month from the ledger. */
+  private roll(): void {
+    const day = periodStart("today");
+    const month = periodStart("month");
+    if (month !== this.monthStart) {
+      const seed = this.monthStart === 0;
+      this.monthStart = month;
+      this.dayStart = day;
+      this.spend.clear();
+      this.total = { day: 0, month: 0 };
+      if (seed) this.seed();
+    } else if (day !== this.dayStart) {
+      this.dayStart = day;
+      for (const s of this.spend.values()) s.day = 0;
+      this.total = { ...this.total, day: 0 };
+    }
+  }
+
+  private seed(): void {
+    for (const e of this.ledger.query({ since: this.monthStart })) {
+      const key = e.agent.toLowerCase();
+      const today = Date.parse(e.at) >= this.dayStart ? e.costUsd : 0;
+      const s = this.spend.get(key) ?? { day: 0, month: 0 };
+      this.spend.set(key, { day: s.day + today, month: s.month + e.costUsd });
+      this.total = { day: this.total.day + today, month: this.total.month + e.costUsd };
+    }
+    if (this.total.month > 0) {
+      this.logger.info(`budget: ${usd(this.total.month)} spent this month so far (${usd(this.total.day)} today)`);
+    }
+  }
+}
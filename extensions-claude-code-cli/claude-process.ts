@@ -1,4 +1,10 @@
 import { spawn, type ChildProcess } from "node:child_process";
+import { preview, type ProgressHooks } from "./progress-events.js";
+import { INLINE_IMAGE_TYPES, describeAttachments, type Attachment } from "./attachments.js";
+import type { PermissionDecision, PermissionRequest } from "./approvals.js";
+import type { CompactionRecord } from "./auto-compact.js";
+import type { CliBackend, CliProcess } from "./backend-registry.js";
+import type { AccountPool } from "./account-pool.js";
 
 type Logger = {
   info: (msg: string) => void;
@@ -6,17 +12,41 @@ type Logger = {
   error: (msg: string) => void;
 };
 
+/** `--permission-mode` values; bypassPermissions maps to `--dangerously-skip-permissions`. */
+export type ClaudePermissionMode = "default" | "acceptEdits" | "plan" | "bypassPermissions";
+
 export type ClaudeProcessOptions = {
   claudePath?: string;
   mcpConfigPath?: string;
+  /** Additional MCP servers passed inline (e.g. the bridge's client-tool server). */
+  mcpServers?: Record<string, unknown>;
   systemPrompt?: string;
   cwd?: string;
   model?: string;
   resumeSessionId?: string;
-  compact?: boolean;
+  /** Default: bypassPermissions. Other modes deny (rather than prompt for) unapproved tools. */
+  permissionMode?: ClaudePermissionMode;
+  /** Tool rules for `--allowedTools` / `--disallowedTools`, e.g. "Bash(git log:*)". */
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  /** Ask this instead of denying tools the permission mode does not allow (`--permission-prompt-tool stdio`). */
+  onPermissionRequest?: (req: PermissionRequest) => Promise<PermissionDecision>;
   env?: Record<string, string>;
   logger: Logger;
   label?: string;
+  /** Every rate-limit window the CLI reports, as it arrives. */
+  onRateLimit?: (rl: RateLimitInfo) => void;
+  /** Called when the CLI exits without `stop()` (crash, OOM kill, spawn failure). */
+  onExit?: (exit: ProcessExit) => void;
+};
+
+export type ProcessExit = {
+  code: number | null;
+  signal: string | null;
+  /** Spawn/IO error, when the process never ran or broke down without an exit code. */
+  error?: string;
+  /** Whether a turn was in flight (it is failed right after this call). */
+  midTurn: boolean;
 };
 
 export type TurnUsage = {
@@ -42,6 +72,19 @@ export type RateLimitInfo = {
   utilization?: number;
 };
 
+/** Rate-limit window from a `rate_limit_event`'s `rate_limit_info` (stream-json output). */
+export function parseRateLimitInfo(info: Record<string, unknown>): RateLimitInfo {
+  return {
+    status: String(info.status ?? "unknown"),
+    resetsAt: typeof info.resetsAt === "number" ? info.resetsAt : undefined,
+    rateLimitType: typeof info.rateLimitType === "string" ? info.rateLimitType : "unknown",
+    overageStatus: typeof info.overageStatus === "string" ? info.overageStatus : undefined,
+    overageResetsAt: typeof info.overageResetsAt === "number" ? info.overageResetsAt : undefined,
+    isUsingOverage: typeof info.isUsingOverage === "boolean" ? info.isUsingOverage : undefined,
+    utilization: typeof info.utilization === "number" ? info.utilization : undefined,
+  };
+}
+
 export type WindowUsage = {
   inputTokens: number;
   outputTokens: number;
@@ -59,6 +102,12 @@ export type ContextUsage = {
   maxOutputTokens?: number;
 };
 
+/** Optional per-turn observers beyond the prose `onText` callback. */
+export type TurnHooks = ProgressHooks & {
+  /** Raw Anthropic streaming event (`message_start`, `content_block_delta`, ...) for every API call in the turn. */
+  onStreamEvent?: (event: Record<string, unknown>) => void;
+};
+
 export type SendMessageResult = {
   text: string;
   sessionId: string;
@@ -69,10 +118,41 @@ export type SendMessageResult = {
   durationMs?: number;
   rateLimit?: RateLimitInfo;
   context?: ContextUsage;
+  /** Stopped by `interrupt()`; text, usage and cost cover what ran before that. */
+  aborted?: boolean;
+};
+
+/** A user message written to stdin whose `result` has not arrived yet. */
+type AwaitedResult = {
+  turnId: number;
+  /** An interrupt was already sent for it. */
+  interrupted: boolean;
 };
 
 const DEFAULT_CLAUDE_PATH = "claude";
+/** Tools that run a sub-agent (renamed from Task to Agent in newer CLI versions). */
+const SUBAGENT_TOOLS = new Set(["Task", "Agent"]);
 const TURN_TIMEOUT_MS = 60 * 60 * 1000;
+/** How long an interrupted turn waits for the CLI's closing result before it is given up on. */
+const INTERRUPT_TIMEOUT_MS = 15_000;
+
+/** A stream-json user message; supported images go inline, anything else is read from disk by path. */
+function userMessageLine(text: string, attachments: Attachment[]): string {
+  const images = attachments.filter((a) => a.kind === "image" && INLINE_IMAGE_TYPES.has(a.mediaType));
+  const prompt = text + describeAttachments(attachments.filter((a) => !images.includes(a)));
+  const content = images.length === 0 ? prompt : [
+    // The API rejects empty text blocks (image-only messages)
+    ...(prompt ? [{ type: "text", text: prompt }] : []),
+    ...images.map((a) => ({
+      type: "image",
+      source: { type: "base64", media_type: a.mediaType, data: a.data.toString("base64") },
+    })),
+  ];
+  return JSON.stringify({
+    type: "user",
+    message: { role: "user", content },
+  });
+}
 
 /**
  * Persistent Claude Code CLI process using the bidirectional stream-json protocol.
@@ -80,7 +160,7 @@ const TURN_TIMEOUT_MS = 60 * 60 * 1000;
  * Keeps a single long-running `claude` process and sends/receives
  * newline-delimited JSON on stdin/stdout. Only prose text is tracked.
  */
-export class ClaudeProcess {
+export class ClaudeProcess implements CliProcess {
   private child: ChildProcess | null = null;
   private opts: ClaudeProcessOptions;
   private lineBuf = "";
@@ -88,12 +168,25 @@ export class ClaudeProcess {
   private alive = false;
   private totalCostUsd = 0;
   private stderrBuf: string[] = [];
+  /** Last stdout activity, for the supervisor's stall check. */
+  private lastOutputAt = 0;
+  /** Permission prompts waiting on the user. */
+  private pendingPermissions = 0;
+  private turnSeq = 0;
+  private controlSeq = 0;
+  /** Results the CLI still owes, in the order the messages were written; output belongs to the head. */
+  private awaitedResults: AwaitedResult[] = [];
 
   // Latest snapshot (persisted across turns for /usage)
   // Keyed by rateLimitType (e.g. "five_hour", "seven_day")
   private rateLimits = new Map<string, RateLimitInfo>();
   private lastContext: ContextUsage | undefined;
   private resolvedModel: string | undefined;
+  private lastCompaction: CompactionRecord | undefined;
+  /** Set while `compact()` runs; compactions without it were started by the CLI itself. */
+  private compactTrigger: CompactionRecord["trigger"] | null = null;
+  /** The next API call after a compaction measures the compacted context. */
+  private measureCompacted = false;
 
   // 5H window usage tracking
   private windowResetsAt = 0;
@@ -107,10 +200,14 @@ export class ClaudeProcess {
   private turnReject: ((err: Error) => void) | null = null;
   private turnProseText = "";
   private turnOnText: ((text: string) => void) | null = null;
+  private turnHooks: TurnHooks | null = null;
   private turnTimeout: ReturnType<typeof setTimeout> | null = null;
   private turnUsage: TurnUsage = { input_tokens: 0, output_tokens: 0 };
+  /** Model of the turn's latest API call (from `message_start`), for running cost estimates. */
+  private turnApiModel: string | undefined;
   private turnToolsUsed: ToolActivity[] = [];
   private seenToolIds = new Set<string>();
+  private turnSubagentIds = new Set<string>();
   private turnCostUsd: number | undefined;
   private turnNumTurns: number | undefined;
   private turnDurationMs: number | undefined;
@@ -118,6 +215,14 @@ export class ClaudeProcess {
   private turnContextTokens = 0;
   private turnContextWindow: number | undefined;
   private turnMaxOutputTokens: number | undefined;
+  private turnId = 0;
+  /** Separate the next reply from the one before it. */
+  private turnReplyBreak = false;
+  /** Set once the turn is interrupted; settled with the partial result. */
+  private turnInterrupt: {
+    promise: Promise<SendMessageResult | null>;
+    resolve: (result: SendMessageResult | null) => void;
+  } | null = null;
 
   private tag: string;
 
@@ -138,9 +243,30 @@ export class ClaudeProcess {
       "--input-format", "stream-json",
       "--verbose",
       "--include-partial-messages",
-      "--dangerously-skip-permissions",
     ];
 
+    const permissionMode = this.opts.permissionMode ?? "bypassPermissions";
+    if (permissionMode === "bypassPermissions") {
+      argv.push("--dangerously-skip-permissions");
+    } else {
+      argv.push("--permission-mode", permissionMode);
+    }
+
+    // The bridge's own MCP servers (client tools) must stay usable under stricter modes
+    const allowedTools = [
+      ...(this.opts.allowedTools ?? []),
+      ...(permissionMode !== "bypassPermissions" ? Object.keys(this.opts.mcpServers ?? {}).map((name) => `mcp__${name}`) : []),
+    ];
+    if (allowedTools.length > 0) {
+      argv.push("--allowedTools", allowedTools.join(","));
+    }
+    if (this.opts.disallowedTools?.length) {
+      argv.push("--disallowedTools", this.opts.disallowedTools.join(","));
+    }
+    if (this.opts.onPermissionRequest && permissionMode !== "bypassPermissions") {
+      argv.push("--permission-prompt-tool", "stdio");
+    }
+
     if (this.opts.model) {
       argv.push("--model", this.opts.model);
     }
@@ -149,6 +275,10 @@ export class ClaudeProcess {
       argv.push("--mcp-config", this.opts.mcpConfigPath);
     }
 
+    if (this.opts.mcpServers && Object.keys(this.opts.mcpServers).length > 0) {
+      argv.push("--mcp-config", JSON.stringify({ mcpServers: this.opts.mcpServers }));
+    }
+
     if (this.opts.systemPrompt) {
       argv.push("--append-system-prompt", this.opts.systemPrompt);
     }
@@ -157,10 +287,6 @@ export class ClaudeProcess {
       argv.push("--resume", this.opts.resumeSessionId);
     }
 
-    if (this.opts.compact) {
-      argv.push("--compact");
-    }
-
     const env = { ...process.env, ...this.opts.env };
     delete env.CLAUDECODE;
     env.CI = "true";
@@ -180,8 +306,11 @@ export class ClaudeProcess {
 
     this.child = child;
     this.alive = true;
+    this.pendingPermissions = 0;
+    this.awaitedResults = [];
 
     child.stdout!.on("data", (chunk: Buffer) => {
+      this.lastOutputAt = Date.now();
       this.lineBuf += chunk.toString();
       const lines = this.lineBuf.split("\n");
       this.lineBuf = lines.pop() ?? "";
@@ -204,9 +333,12 @@ export class ClaudeProcess {
 
     child.on("error", (err: NodeJS.ErrnoException) => {
       log.error(`${this.tag}: spawn error: ${err.message}`);
+      if (this.child !== child) return;
       this.alive = false;
       this.child = null;
       this.clearTurnTimeout();
+      this.opts.onExit?.({ code: null, signal: null, error: err.message, midTurn: this.turnReject !== null });
+      this.settleInterrupt(null);
       if (this.turnReject) {
         this.turnReject(new Error(`Claude process error: ${err.message}`));
         this.turnResolve = null;
@@ -220,9 +352,13 @@ export class ClaudeProcess {
       if (stderrTail) {
         log.error(`${this.tag}: stderr output:\n${stderrTail}`);
       }
+      // stop() detaches the child before killing it; anything else is a crash
+      if (this.child !== child) return;
       this.alive = false;
       this.child = null;
       this.clearTurnTimeout();
+      this.opts.onExit?.({ code, signal, midTurn: this.turnReject !== null });
+      this.settleInterrupt(null);
       if (this.turnReject) {
         const errDetail = stderrTail ? `\nstderr: ${stderrTail}` : "";
         this.turnReject(new Error(`Claude process exited unexpectedly (code ${code})${errDetail}`));
@@ -235,6 +371,8 @@ export class ClaudeProcess {
   sendMessage(
     text: string,
     onText?: (text: string) => void,
+    hooks?: TurnHooks,
+    attachments: Attachment[] = [],
   ): Promise<SendMessageResult> {
     const log = this.opts.logger;
 
@@ -248,9 +386,12 @@ export class ClaudeProcess {
 
     this.turnProseText = "";
     this.turnOnText = onText ?? null;
+    this.turnHooks = hooks ?? null;
     this.turnUsage = { input_tokens: 0, output_tokens: 0 };
+    this.turnApiModel = undefined;
     this.turnToolsUsed = [];
     this.seenToolIds.clear();
+    this.turnSubagentIds.clear();
     this.turnCostUsd = undefined;
     this.turnNumTurns = undefined;
     this.turnDurationMs = undefined;
@@ -258,6 +399,15 @@ export class ClaudeProcess {
     this.turnContextTokens = 0;
     this.turnContextWindow = undefined;
     this.turnMaxOutputTokens = undefined;
+    this.turnId = ++this.turnSeq;
+    this.turnReplyBreak = false;
+    this.turnInterrupt = null;
+    // A result that has not come in while the CLI sat quiet is not coming; don't let it swallow this turn
+    if (this.awaitedResults.length > 0 && this.getSilentMs() >= INTERRUPT_TIMEOUT_MS) {
+      log.warn(`${this.tag}: dropping ${this.awaitedResults.length} result(s) owed by closed turns`);
+      this.awaitedResults = [];
+    }
+    this.lastOutputAt = Date.now();
 
     return new Promise<SendMessageResult>((resolve, reject) => {
       this.turnResolve = resolve;
@@ -271,16 +421,16 @@ export class ClaudeProcess {
         this.completeTurn();
       }, TURN_TIMEOUT_MS);
 
-      const msg = JSON.stringify({
-        type: "user",
-        message: { role: "user", content: text },
-      });
+      const msg = userMessageLine(text, attachments);
 
-      log.info(`${this.tag}: sending message (${text.length} chars)`);
+      log.info(`${this.tag}: sending message (${text.length} chars, ${attachments.length} attachment(s))`);
 
+      const awaited: AwaitedResult = { turnId: this.turnId, interrupted: false };
+      this.awaitedResults.push(awaited);
       this.child!.stdin!.write(msg + "\n", (err) => {
         if (err) {
           log.error(`${this.tag}: stdin write error: ${err.message}`);
+          this.awaitedResults = this.awaitedResults.filter((a) => a !== awaited);
           this.clearTurnTimeout();
           this.turnResolve = null;
           this.turnReject = null;
@@ -290,20 +440,120 @@ export class ClaudeProcess {
     });
   }
 
+  /**
+   * Add a user message to the running turn to steer it. The CLI answers it
+   * with a result of its own; the turn resolves after the last one, with all
+   * replies streamed into the same `onText`. Returns false when idle.
+   */
+  injectMessage(text: string, attachments: Attachment[] = []): boolean {
+    if (!this.turnResolve || this.turnInterrupt || !this.child || !this.alive) return false;
+    const log = this.opts.logger;
+    this.awaitedResults.push({ turnId: this.turnId, interrupted: false });
+    log.info(`${this.tag}: injecting message into running turn (${text.length} chars, ${attachments.length} attachment(s))`);
+    this.child.stdin!.write(userMessageLine(text, attachments) + "\n", (err) => {
+      if (err) log.error(`${this.tag}: stdin write error: ${err.message}`);
+    });
+    return true;
+  }
+
+  /**
+   * Compact the conversation in place by running `/compact` as a turn.
+   * The compacted size is filled in from the next turn's first API call.
+   */
+  async compact(trigger: CompactionRecord["trigger"], instructions?: string): Promise<CompactionRecord> {
+    const before = this.lastContext;
+    const previous = this.lastCompaction;
+    this.compactTrigger = trigger;
+    try {
+      const out = await this.sendMessage(instructions ? `/compact ${instructions}` : "/compact");
+      if (out.aborted) throw new Error("Compaction was interrupted");
+    } finally {
+      this.compactTrigger = null;
+    }
+
+    let record = this.lastCompaction;
+    // No compact_boundary event (older CLI): record what we know
+    if (!record || record === previous) {
+      record = { trigger, beforeTokens: before?.contextTokens ?? 0, contextWindow: before?.contextWindow, at: Date.now() };
+      this.lastCompaction = record;
+      this.measureCompacted = true;
+    }
+    // Usage of the summarization call is not the new context size
+    this.lastContext = undefined;
+    return record;
+  }
+
   /** Check if a turn is currently in progress. */
   isBusy(): boolean {
     return this.turnResolve !== null;
   }
 
-  /** Abort the current in-flight turn without killing the process. */
+  /** Abort the current in-flight turn without killing the process (see `interrupt`). */
   abortTurn(): void {
-    if (!this.turnReject) return;
-    this.clearTurnTimeout();
-    const reject = this.turnReject;
-    this.turnResolve = null;
-    this.turnReject = null;
+    void this.interrupt();
+  }
+
+  /**
+   * Stop the running turn with an `interrupt` control request. Output stops
+   * reaching the turn's callbacks right away; the turn resolves (`aborted`)
+   * with its partial text and cost once the CLI closes it with a result, or
+   * after INTERRUPT_TIMEOUT_MS. Returns that result, or null when idle.
+   */
+  interrupt(): Promise<SendMessageResult | null> {
+    if (!this.turnResolve) return Promise.resolve(null);
+    if (this.turnInterrupt) return this.turnInterrupt.promise;
+
+    const log = this.opts.logger;
+    let resolve!: (result: SendMessageResult | null) => void;
+    const promise = new Promise<SendMessageResult | null>((r) => { resolve = r; });
+    this.turnInterrupt = { promise, resolve };
     this.turnOnText = null;
-    reject(new Error("Turn aborted by user"));
+    this.turnHooks = null;
+
+    const current = this.awaitedResults.find((a) => a.turnId === this.turnId);
+    if (current) current.interrupted = true;
+    log.info(`${this.tag}: interrupting turn ${this.turnId} proseLen=${this.turnProseText.length}`);
+    this.sendControl({ subtype: "interrupt" });
+
+    this.clearTurnTimeout();
+    this.turnTimeout = setTimeout(() => {
+      log.warn(`${this.tag}: no result ${INTERRUPT_TIMEOUT_MS / 1000}s after interrupt, closing turn ${this.turnId} without it`);
+      this.completeTurn();
+    }, INTERRUPT_TIMEOUT_MS);
+    return promise;
+  }
+
+  private settleInterrupt(result: SendMessageResult | null): void {
+    this.turnInterrupt?.resolve(result);
+    this.turnInterrupt = null;
+  }
+
+  /** Bridge → CLI control request (e.g. interrupt); the CLI acknowledges with a `control_response`. */
+  private sendControl(request: Record<string, unknown>): void {
+    if (!this.child?.stdin?.writable) return;
+    const requestId = `bridge-${++this.controlSeq}`;
+    this.child.stdin.write(JSON.stringify({ type: "control_request", request_id: requestId, request }) + "\n");
+  }
+
+  /** Whether stdout currently belongs to a turn that was already closed (interrupted, or timed out). */
+  private isStale(): boolean {
+    const head = this.awaitedResults[0];
+    return head !== undefined && (head.turnId !== this.turnId || !this.turnResolve);
+  }
+
+  /** Drop output of a closed turn, interrupting each of its messages the CLI still works on. */
+  private discardStale(event: Record<string, unknown>): void {
+    const head = this.awaitedResults[0];
+    if (event.type === "result") {
+      this.awaitedResults.shift();
+      if (typeof event.total_cost_usd === "number") this.totalCostUsd += event.total_cost_usd;
+      this.opts.logger.info(`${this.tag}: discarded late result of turn ${head.turnId}`);
+      return;
+    }
+    if (!head.interrupted) {
+      head.interrupted = true;
+      this.sendControl({ subtype: "interrupt" });
+    }
   }
 
   private clearTurnTimeout(): void {
@@ -348,8 +598,9 @@ export class ClaudeProcess {
       this.turnResolve = null;
       this.turnReject = null;
       this.turnOnText = null;
+      this.turnHooks = null;
       const hasUsage = this.turnUsage.input_tokens > 0 || this.turnUsage.output_tokens > 0;
-      resolve({
+      const result: SendMessageResult = {
         text: this.turnProseText,
         sessionId: this.sessionId,
         usage: hasUsage ? { ...this.turnUsage } : undefined,
@@ -363,7 +614,10 @@ export class ClaudeProcess {
           contextWindow: this.turnContextWindow,
           maxOutputTokens: this.turnMaxOutputTokens,
         } : undefined,
-      });
+        aborted: this.turnInterrupt ? true : undefined,
+      };
+      resolve(result);
+      this.settleInterrupt(result);
     }
   }
 
@@ -389,20 +643,44 @@ export class ClaudeProcess {
       return;
     }
 
+    if (eventType === "system" && event.subtype === "compact_boundary") {
+      const meta = event.compact_metadata as Record<string, unknown> | undefined;
+      const preTokens = typeof meta?.pre_tokens === "number" ? meta.pre_tokens : undefined;
+      this.lastCompaction = {
+        trigger: this.compactTrigger ?? "auto",
+        beforeTokens: preTokens ?? this.lastContext?.contextTokens ?? 0,
+        contextWindow: this.lastContext?.contextWindow ?? this.turnContextWindow,
+        at: Date.now(),
+      };
+      this.measureCompacted = true;
+      log.info(`${this.tag}: context compacted (${this.lastCompaction.trigger}) from ${this.lastCompaction.beforeTokens} tokens`);
+      return;
+    }
+
+    if (eventType === "control_request") {
+      this.handleControlRequest(event);
+      return;
+    }
+
+    if (eventType === "control_response") {
+      const response = event.response as Record<string, unknown> | undefined;
+      if (response?.subtype === "error") log.warn(`${this.tag}: control request failed: ${String(response.error ?? "unknown")}`);
+      return;
+    }
+
+    // Output of an interrupted turn (or of messages injected into it) that arrives after it closed
+    if (["stream_event", "assistant", "user", "result"].includes(eventType) && this.isStale()) {
+      this.discardStale(event);
+      return;
+    }
+
     if (eventType === "rate_limit_event") {
       const info = event.rate_limit_info as Record<string, unknown> | undefined;
       if (info) {
-        const rlType = typeof info.rateLimitType === "string" ? info.rateLimitType : "unknown";
-        const rl: RateLimitInfo = {
-          status: String(info.status ?? "unknown"),
-          resetsAt: typeof info.resetsAt === "number" ? info.resetsAt : undefined,
-          rateLimitType: rlType,
-          overageStatus: typeof info.overageStatus === "string" ? info.overageStatus : undefined,
-          overageResetsAt: typeof info.overageResetsAt === "number" ? info.overageResetsAt : undefined,
-          isUsingOverage: typeof info.isUsingOverage === "boolean" ? info.isUsingOverage : undefined,
-          utilization: typeof info.utilization === "number" ? info.utilization : undefined,
-        };
+        const rl = parseRateLimitInfo(info);
+        const rlType = rl.rateLimitType!;
         this.turnRateLimits.set(rlType, rl);
+        this.opts.onRateLimit?.(rl);
         if (rl.status !== "allowed") {
           log.warn(`${this.tag}: rate limit ${rlType} status=${rl.status} info=${JSON.stringify(info)}`);
         }
@@ -413,18 +691,28 @@ export class ClaudeProcess {
     // Streaming events — prose text + usage tracking
     if (eventType === "stream_event") {
       const inner = event.event as Record<string, unknown> | undefined;
+      if (inner) this.turnHooks?.onStreamEvent?.(inner);
 
       if (inner?.type === "content_block_delta") {
         const delta = inner.delta as Record<string, unknown> | undefined;
         if (delta?.type === "text_delta" && typeof delta.text === "string") {
-          const text = delta.text as string;
+          const text = (this.turnReplyBreak && this.turnProseText ? "\n\n" : "") + (delta.text as string);
+          this.turnReplyBreak = false;
           this.turnProseText += text;
           this.turnOnText?.(text);
+        } else if (delta?.type === "thinking_delta" && typeof delta.thinking === "string") {
+          this.turnHooks?.onProgress?.({
+            type: "thinking",
+            text: delta.thinking,
+            parentToolId: parentToolId(event),
+          });
         }
       }
 
       // message_start carries input token counts
       if (inner?.type === "message_start") {
+        const apiModel = (inner.message as Record<string, unknown>)?.model;
+        if (typeof apiModel === "string") this.turnApiModel = apiModel;
         const msgUsage = (inner.message as Record<string, unknown>)?.usage as Record<string, number> | undefined;
         if (msgUsage) {
           if (msgUsage.input_tokens) this.turnUsage.input_tokens += msgUsage.input_tokens;
@@ -441,6 +729,10 @@ export class ClaudeProcess {
             + (msgUsage.cache_creation_input_tokens ?? 0);
           if (contextSize > 0) {
             this.turnContextTokens = contextSize;
+            if (this.measureCompacted && this.lastCompaction) {
+              this.lastCompaction.afterTokens = contextSize;
+              this.measureCompacted = false;
+            }
           }
         }
       }
@@ -453,6 +745,10 @@ export class ClaudeProcess {
         }
       }
 
+      if (inner?.type === "message_start" || inner?.type === "message_delta") {
+        this.turnHooks?.onUsage?.({ ...this.turnUsage }, this.turnApiModel ?? this.getModel());
+      }
+
       return;
     }
 
@@ -464,30 +760,44 @@ export class ClaudeProcess {
           if (block.type === "tool_use" && typeof block.id === "string" && !this.seenToolIds.has(block.id as string)) {
             this.seenToolIds.add(block.id as string);
             this.turnToolsUsed.push({ name: String(block.name), id: block.id as string });
+            this.emitToolStart(block, parentToolId(event));
           }
         }
       }
       return;
     }
+    // User messages carry tool results — only used for progress events
     if (eventType === "user") {
+      const content = (event.message as Record<string, unknown>)?.content;
+      if (Array.isArray(content)) {
+        for (const block of content as Record<string, unknown>[]) {
+          if (block.type === "tool_result" && typeof block.tool_use_id === "string") {
+            this.emitToolEnd(block, parentToolId(event));
+          }
+        }
+      }
       return;
     }
 
     // Result event — turn is complete
     if (eventType === "result") {
+      this.awaitedResults.shift();
+      // Injected messages of this turn still to be answered (an interrupt gives up on them)
+      const pendingReplies = this.turnInterrupt ? 0 : this.awaitedResults.filter((a) => a.turnId === this.turnId).length;
       if (typeof event.session_id === "string") {
         this.sessionId = event.session_id as string;
       }
 
+      // Summed, since a turn with injected messages gets one result per message
       if (typeof event.total_cost_usd === "number") {
         this.totalCostUsd += event.total_cost_usd as number;
-        this.turnCostUsd = event.total_cost_usd as number;
+        this.turnCostUsd = (this.turnCostUsd ?? 0) + (event.total_cost_usd as number);
       }
       if (typeof event.num_turns === "number") {
-        this.turnNumTurns = event.num_turns as number;
+        this.turnNumTurns = (this.turnNumTurns ?? 0) + (event.num_turns as number);
       }
       if (typeof event.duration_ms === "number") {
-        this.turnDurationMs = event.duration_ms as number;
+        this.turnDurationMs = (this.turnDurationMs ?? 0) + (event.duration_ms as number);
       }
 
       // Extract contextWindow/maxOutputTokens from modelUsage or model
@@ -521,7 +831,8 @@ export class ClaudeProcess {
       const numTurns = this.turnNumTurns ?? "?";
       const durationMs = this.turnDurationMs ?? "?";
 
-      if (event.is_error || event.subtype === "error_during_execution") {
+      // An interrupted turn ends with an error result; that is the acknowledgement, not a failure
+      if (!this.turnInterrupt && (event.is_error || event.subtype === "error_during_execution")) {
         const errors = event.errors as string[] | undefined;
         const errorMsg = errors?.join("; ") ?? String(event.result ?? "unknown error");
         log.error(`${this.tag}: turn error: ${errorMsg}`);
@@ -529,12 +840,18 @@ export class ClaudeProcess {
         if (!this.turnProseText.trim()) {
           log.warn(`${this.tag}: error with no prose output, rejecting`);
           this.clearTurnTimeout();
+          // Keep rejected windows for getRateLimits() so the bridge can fall back until they reset
+          for (const [type, rl] of this.turnRateLimits) this.rateLimits.set(type, { ...rl });
+          const rejected = [...this.turnRateLimits.values()].find((rl) => rl.status === "rejected");
           if (this.turnReject) {
             const reject = this.turnReject;
             this.turnResolve = null;
             this.turnReject = null;
             this.turnOnText = null;
-            reject(new Error(`Claude turn error: ${errorMsg}`));
+            this.turnHooks = null;
+            reject(new Error(rejected
+              ? `Claude rate limit reached (${rejected.rateLimitType}): ${errorMsg}`
+              : `Claude turn error: ${errorMsg}`));
           }
           return;
         }
@@ -548,12 +865,18 @@ export class ClaudeProcess {
         : "";
 
       log.info(
-        `${this.tag}: turn complete sid=${this.sessionId.slice(0, 12)} ` +
+        `${this.tag}: ${pendingReplies > 0 ? "reply" : this.turnInterrupt ? "interrupted turn" : "turn"} complete sid=${this.sessionId.slice(0, 12)} ` +
         `proseLen=${this.turnProseText.length} ` +
         `turns=${numTurns} cost=$${costUsd} dur=${durationMs}ms` +
         usageStr + toolStr,
       );
 
+      // Answer to an earlier message of the turn; keep going until the injected ones are answered
+      if (pendingReplies > 0 && this.turnResolve) {
+        this.turnReplyBreak = true;
+        return;
+      }
+
       this.completeTurn();
       return;
     }
@@ -561,9 +884,89 @@ export class ClaudeProcess {
     log.warn(`${this.tag}: unhandled event type="${eventType}" subtype="${event.subtype ?? ""}"`);
   }
 
-  async restart(): Promise<void> {
+  private emitToolStart(block: Record<string, unknown>, parent: string | undefined): void {
+    const onProgress = this.turnHooks?.onProgress;
+    if (!onProgress) return;
+    const id = block.id as string;
+    const name = String(block.name);
+    onProgress({ type: "tool_start", id, name, input: preview(block.input), parentToolId: parent });
+    if (SUBAGENT_TOOLS.has(name)) {
+      const input = (block.input ?? {}) as Record<string, unknown>;
+      this.turnSubagentIds.add(id);
+      onProgress({
+        type: "subagent_start",
+        id,
+        description: String(input.description ?? ""),
+        agentType: typeof input.subagent_type === "string" ? input.subagent_type : undefined,
+      });
+    }
+  }
+
+  private emitToolEnd(block: Record<string, unknown>, parent: string | undefined): void {
+    const onProgress = this.turnHooks?.onProgress;
+    if (!onProgress) return;
+    const id = block.tool_use_id as string;
+    const isError = block.is_error === true;
+    const name = this.turnToolsUsed.find((t) => t.id === id)?.name ?? "unknown";
+    // Result content is a string or an array of content blocks
+    const output = Array.isArray(block.content)
+      ? (block.content as Record<string, unknown>[]).map((b) => (typeof b.text === "string" ? b.text : "")).join(" ")
+      : block.content;
+    onProgress({ type: "tool_end", id, name, isError, output: preview(output), parentToolId: parent });
+    if (this.turnSubagentIds.delete(id)) {
+      onProgress({ type: "subagent_end", id, isError });
+    }
+  }
+
+  /** CLI → bridge control requests; only permission prompts (`can_use_tool`) are supported. */
+  private handleControlRequest(event: Record<string, unknown>): void {
+    const child = this.child;
+    const requestId = String(event.request_id ?? "");
+    const request = (event.request ?? {}) as Record<string, unknown>;
+    const respond = (response: Record<string, unknown>) => {
+      // A restarted CLI does not know the old request
+      if (!child || this.child !== child || !child.stdin?.writable) return;
+      child.stdin.write(JSON.stringify({ type: "control_response", response: { request_id: requestId, ...response } }) + "\n");
+    };
+
+    const handler = this.opts.onPermissionRequest;
+    if (request.subtype !== "can_use_tool" || !handler) {
+      respond({ subtype: "error", error: `Unsupported control request: ${String(request.subtype)}` });
+      return;
+    }
+
+    const toolName = String(request.tool_name ?? "unknown");
+    const input = (request.input ?? {}) as Record<string, unknown>;
+    if (this.isStale()) {
+      respond({ subtype: "success", response: { behavior: "deny", message: "The turn was interrupted" } });
+      return;
+    }
+
+    this.pendingPermissions++;
+    handler({
+      toolName,
+      input,
+      toolUseId: typeof request.tool_use_id === "string" ? request.tool_use_id : undefined,
+      blockedPath: typeof request.blocked_path === "string" ? request.blocked_path : undefined,
+    })
+      .catch((err): PermissionDecision => ({
+        behavior: "deny",
+        message: `Permission check failed: ${err instanceof Error ? err.message : String(err)}`,
+      }))
+      .then((decision) => {
+        this.pendingPermissions = Math.max(0, this.pendingPermissions - 1);
+        // Waiting on the user is not a stall
+        this.lastOutputAt = Date.now();
+        this.opts.logger.info(`${this.tag}: ${toolName} ${decision.behavior}`);
+        respond({ subtype: "success", response: decision });
+      });
+  }
+
+  /** Restart the CLI, optionally resuming a different session than it was started with. */
+  async restart(resumeSessionId?: string): Promise<void> {
     this.opts.logger.info(`${this.tag}: restarting...`);
     await this.stop();
+    if (resumeSessionId) this.opts.resumeSessionId = resumeSessionId;
     this.start();
   }
 
@@ -579,6 +982,7 @@ export class ClaudeProcess {
       this.alive = false;
 
       this.clearTurnTimeout();
+      this.settleInterrupt(null);
       if (this.turnReject) {
         this.turnReject(new Error("Claude process stopped"));
         this.turnResolve = null;
@@ -601,6 +1005,16 @@ export class ClaudeProcess {
     return this.alive;
   }
 
+  /** Whether a permission prompt is waiting on the user. */
+  isAwaitingPermission(): boolean {
+    return this.pendingPermissions > 0;
+  }
+
+  /** Milliseconds since the CLI last wrote to stdout (or since the turn started). */
+  getSilentMs(): number {
+    return Date.now() - this.lastOutputAt;
+  }
+
   getSessionId(): string {
     return this.sessionId;
   }
@@ -631,6 +1045,10 @@ export class ClaudeProcess {
     return this.lastContext;
   }
 
+  getLastCompaction(): CompactionRecord | undefined {
+    return this.lastCompaction;
+  }
+
   getWindowUsage(): WindowUsage | undefined {
     if (this.windowResetsAt === 0 && this.windowTurns === 0) return undefined;
     return {
@@ -643,3 +1061,53 @@ export class ClaudeProcess {
   }
 
 }
+
+export type ClaudeBackendConfig = {
+  claudePath?: string;
+  mcpConfigPath?: string;
+  /** Several subscriptions; without it every session uses the default login. */
+  accounts?: AccountPool;
+  /** Rate-limit windows reported by any session, with the pool account it runs on. */
+  onRateLimit?: (account: string | undefined, rl: RateLimitInfo) => void;
+};
+
+/** Claude CLI backend: the default, serving every model no other backend claims. */
+export function claudeBackend(config: ClaudeBackendConfig): CliBackend {
+  return {
+    id: "claude",
+    label: "Claude CLI",
+    shortLabel: "Claude",
+    vendor: "anthropic",
+    clientTools: true,
+    accounts: config.accounts,
+    models: () => ["claude-code-cli"],
+    matchesModel: () => true,
+    create: (opts) => {
+      const perms = opts.permissions;
+      return new ClaudeProcess({
+        claudePath: config.claudePath,
+        mcpConfigPath: config.mcpConfigPath,
+        mcpServers: opts.mcpServers,
+        systemPrompt: opts.systemPrompt,
+        cwd: opts.cwd,
+        model: opts.model,
+        resumeSessionId: opts.resumeId,
+        // Approvals only make sense when something is not pre-approved
+        permissionMode: perms.permissionMode ?? (opts.onPermissionRequest ? "default" : undefined),
+        allowedTools: perms.allowedTools,
+        disallowedTools: perms.disallowedTools,
+        onPermissionRequest: opts.onPermissionRequest,
+        env: opts.account ? { CLAUDE_CONFIG_DIR: opts.account.configDir } : undefined,
+        logger: opts.logger,
+        label: opts.account ? `${opts.conversationId}@${opts.account.name}` : opts.conversationId,
+        onRateLimit: config.onRateLimit ? (rl) => config.onRateLimit!(opts.account?.name, rl) : undefined,
+        onExit: opts.onExit,
+      });
+    },
+  };
+}
+
+/** Tool-use id of the sub-agent call an event belongs to (absent for the main agent). */
+function parentToolId(event: Record<string, unknown>): string | undefined {
+  return typeof event.parent_tool_use_id === "string" ? event.parent_tool_use_id : undefined;
+}
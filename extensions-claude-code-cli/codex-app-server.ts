@@ -0,0 +1,182 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import readline from "node:readline";
+
+type Logger = {
+  info: (msg: string) => void;
+  warn: (msg: string) => void;
+  error: (msg: string) => void;
+};
+
+export type CodexAppServerOptions = {
+  codexPath: string;
+  cwd?: string;
+  logger: Logger;
+  /** Notification from the server (`item/started`, `turn/completed`, ...). */
+  onNotification: (method: string, params: Record<string, unknown>) => void;
+  /** Request from the server (approvals); the resolved value is sent back as the result. */
+  onRequest: (method: string, params: Record<string, unknown>) => Promise<unknown>;
+  /** The server exited without `stop()`. */
+  onExit: (reason: string) => void;
+};
+
+type Pending = {
+  method: string;
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+};
+
+type RpcMessage = {
+  id?: number | string;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: { code?: number; message?: string };
+};
+
+const INIT_TIMEOUT_MS = 20_000;
+
+/**
+ * JSON-RPC client for a long-running `codex app-server` (one JSON message
+ * per line on stdio). Owns the child process and request bookkeeping; the
+ * thread and turn logic lives in CodexProcess.
+ */
+export class CodexAppServer {
+  private opts: CodexAppServerOptions;
+  private child: ChildProcess | null = null;
+  private nextId = 1;
+  private pending = new Map<number, Pending>();
+  private stopping = false;
+  private stderrTail: string[] = [];
+
+  constructor(opts: CodexAppServerOptions) {
+    this.opts = opts;
+  }
+
+  /** Spawn the server and run the `initialize` handshake; rejects when the CLI has no app-server. */
+  async start(): Promise<void> {
+    const log = this.opts.logger;
+    const child = spawn(this.opts.codexPath, ["app-server"], {
+      stdio: ["pipe", "pipe", "pipe"],
+      cwd: this.opts.cwd,
+    });
+    this.child = child;
+
+    child.stderr?.on("data", (chunk: Buffer) => {
+      const text = chunk.toString().trim();
+      if (!text) return;
+      this.stderrTail = [...this.stderrTail, text].slice(-5);
+      log.warn(`codex-app-server: [stderr] ${text.slice(0, 200)}`);
+    });
+
+    const rl = readline.createInterface({ input: child.stdout!, crlfDelay: Infinity });
+    rl.on("line", (line) => this.handleLine(line));
+
+    child.on("error", (err) => this.handleExit(`spawn failed: ${err.message}`));
+    child.on("exit", (code, signal) => this.handleExit(`exit code=${code} signal=${signal}`));
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      await Promise.race([
+        this.request("initialize", {
+          clientInfo: { name: "openclaw-bridge", title: "OpenClaw bridge", version: "1.0.0" },
+        }),
+        new Promise((_, reject) => {
+          timer = setTimeout(() => reject(new Error("initialize timed out")), INIT_TIMEOUT_MS);
+        }),
+      ]);
+    } catch (err) {
+      this.stop();
+      throw err;
+    } finally {
+      clearTimeout(timer);
+    }
+    this.notify("initialized");
+    log.info(`codex-app-server: ready pid=${child.pid}`);
+  }
+
+  isAlive(): boolean {
+    return this.child !== null;
+  }
+
+  request<T = Record<string, unknown>>(method: string, params?: Record<string, unknown>): Promise<T> {
+    if (!this.child?.stdin?.writable) {
+      return Promise.reject(new Error("Codex app-server is not running"));
+    }
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { method, resolve: resolve as (result: unknown) => void, reject });
+      this.write({ id, method, params });
+    });
+  }
+
+  notify(method: string, params?: Record<string, unknown>): void {
+    this.write({ method, ...(params ? { params } : {}) });
+  }
+
+  stop(): void {
+    this.stopping = true;
+    if (this.child && !this.child.killed) this.child.kill("SIGTERM");
+    this.child = null;
+    this.rejectAll("Codex app-server stopped");
+  }
+
+  // --- Internal ---
+
+  private write(message: RpcMessage): void {
+    this.child?.stdin?.write(JSON.stringify(message) + "\n");
+  }
+
+  private handleLine(line: string): void {
+    if (!line.trim()) return;
+    let msg: RpcMessage;
+    try {
+      msg = JSON.parse(line) as RpcMessage;
+    } catch {
+      return; // skip malformed lines
+    }
+
+    // Response to one of our requests
+    if (msg.id !== undefined && !msg.method) {
+      const pending = this.pending.get(Number(msg.id));
+      if (!pending) return;
+      this.pending.delete(Number(msg.id));
+      if (msg.error) {
+        pending.reject(new Error(`${pending.method}: ${msg.error.message ?? "request failed"}`));
+      } else {
+        pending.resolve(msg.result);
+      }
+      return;
+    }
+
+    if (!msg.method) return;
+    const params = msg.params ?? {};
+
+    // Request from the server; always answer so the turn does not hang
+    if (msg.id !== undefined) {
+      const id = msg.id;
+      this.opts.onRequest(msg.method, params)
+        .then((result) => this.write({ id, result }))
+        .catch((err) => this.write({ id, error: { code: -32603, message: err instanceof Error ? err.message : String(err) } }));
+      return;
+    }
+
+    this.opts.onNotification(msg.method, params);
+  }
+
+  private handleExit(reason: string): void {
+    if (!this.child && !this.stopping) return;
+    const wasStopping = this.stopping;
+    this.child = null;
+    const stderr = this.stderrTail.join("\n").slice(0, 500);
+    this.rejectAll(`Codex app-server exited (${reason})${stderr ? `:\n${stderr}` : ""}`);
+    if (!wasStopping) {
+      this.opts.logger.warn(`codex-app-server: ${reason}`);
+      this.opts.onExit(reason);
+    }
+  }
+
+  private rejectAll(message: string): void {
+    for (const pending of this.pending.values()) pending.reject(new Error(message));
+    this.pending.clear();
+  }
+}
@@ -1,5 +1,12 @@
 import { spawn, execSync, type ChildProcess } from "node:child_process";
 import readline from "node:readline";
+import { preview, type ProgressEvent, type ProgressHooks } from "./progress-events.js";
+import { describeAttachments, type Attachment } from "./attachments.js";
+import type { ContextUsage, SendMessageResult, ToolActivity, TurnUsage } from "./claude-process.js";
+import { computeCost, priceFor, type PriceTable } from "./pricing.js";
+import type { CliBackend, CliProcess } from "./backend-registry.js";
+import type { PermissionDecision, PermissionRequest } from "./approvals.js";
+import { CodexAppServer } from "./codex-app-server.js";
 
 type Logger = {
   info: (msg: string) => void;
@@ -7,20 +14,29 @@ type Logger = {
   error: (msg: string) => void;
 };
 
+/** Codex `sandbox_mode`; workspace-write is what `--full-auto` uses. */
+export type CodexSandbox = "read-only" | "workspace-write" | "danger-full-access";
+
+/** One `codex exec` per turn, or a long-running `codex app-server` per session. */
+export type CodexMode = "exec" | "app-server";
+
 export type CodexProcessOptions = {
   codexPath?: string;
   cwd?: string;
   model?: string;
   threadId?: string;
   systemPrompt?: string;
+  /** Default: workspace-write. */
+  sandbox?: CodexSandbox;
+  /** Prices turns by model; without a price for the model, turns carry no cost. */
+  prices?: PriceTable;
+  /** Default: exec. app-server falls back to exec when the CLI cannot serve it. */
+  mode?: CodexMode;
+  /** app-server mode: ask this about commands and patches instead of never asking. */
+  onPermissionRequest?: (req: PermissionRequest) => Promise<PermissionDecision>;
   logger: Logger;
 };
 
-export type SendMessageResult = {
-  text: string;
-  sessionId: string;
-};
-
 // --- Codex JSONL event types ---
 
 type ThreadEvent =
@@ -41,7 +57,81 @@ type TokenUsage = {
   output_tokens: number;
 };
 
+// --- app-server (JSON-RPC v2) types ---
+
+type AppServerTokens = {
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+};
+
+type AppServerTokenUsage = {
+  total: AppServerTokens;
+  /** The latest model call. */
+  last: AppServerTokens;
+  modelContextWindow?: number | null;
+};
+
+/** A turn running on the app-server; settled by `turn/completed`. */
+type AppServerTurn = {
+  turnId: string | null;
+  onText?: (text: string) => void;
+  onProgress?: (event: ProgressEvent) => void;
+  onUsage?: ProgressHooks["onUsage"];
+  /** Items seen so far (approval requests only carry the item ID). */
+  items: Map<string, ThreadItem>;
+  /** Agent-message text already forwarded, per item. */
+  streamed: Map<string, number>;
+  /** Everything streamed so far, the reply of a turn interrupted mid-message. */
+  partial: string;
+  finalResponse: string;
+  toolsUsed: ToolActivity[];
+  startedTools: Set<string>;
+  reasoningSent: Map<string, number>;
+  usage: TokenUsage | null;
+  context?: ContextUsage;
+  error: string | null;
+  startedAt: number;
+  interruptTimer?: ReturnType<typeof setTimeout>;
+  promise: Promise<SendMessageResult>;
+  resolve: (result: SendMessageResult) => void;
+  reject: (err: Error) => void;
+};
+
 const DEFAULT_CODEX_PATH = "codex";
+/** How long an interrupted app-server turn may take to wind down before the server is killed. */
+const INTERRUPT_TIMEOUT_MS = 15_000;
+
+/** Map a tool-like Codex item onto a progress tool name + input preview (null for prose items). */
+function describeItem(item: ThreadItem): { name: string; input?: string } | null {
+  // exec emits snake_case item types, app-server camelCase
+  switch (item.type) {
+    case "command_execution":
+    case "commandExecution":
+      return { name: "shell", input: preview(item.command) };
+    case "file_change":
+    case "fileChange":
+      return {
+        name: "apply_patch",
+        input: preview(Array.isArray(item.changes) ? item.changes.map((c: { path?: string }) => c.path).join(", ") : undefined),
+      };
+    case "mcp_tool_call":
+    case "mcpToolCall":
+      return { name: `${String(item.server)}.${String(item.tool)}`, input: preview(item.arguments) };
+    case "web_search":
+    case "webSearch":
+      return { name: "web_search", input: preview(item.query) };
+    default:
+      return null;
+  }
+}
+
+/** Whether a completed tool-like item failed. */
+function itemFailed(item: ThreadItem): boolean {
+  if (item.status === "failed" || item.status === "declined" || item.error) return true;
+  const exitCode = item.exit_code ?? item.exitCode;
+  return typeof exitCode === "number" && exitCode !== 0;
+}
 
 function resolveCodexBinary(configPath?: string): string {
   if (configPath) return configPath;
@@ -53,13 +143,15 @@ function resolveCodexBinary(configPath?: string): string {
 }
 
 /**
- * Ephemeral Codex CLI wrapper.
+ * Codex CLI wrapper.
  *
- * Each `sendMessage()` spawns a fresh `codex exec` process.
- * Thread IDs are tracked for resume across turns.
- * Exposes the same public interface as ClaudeProcess (duck typing).
+ * In exec mode each `sendMessage()` spawns a fresh `codex exec` process.
+ * In app-server mode one `codex app-server` runs per session and turns are
+ * started, streamed and interrupted over JSON-RPC; if the server cannot be
+ * started the session falls back to exec. Thread IDs are shared by both
+ * modes and tracked for resume across turns.
  */
-export class CodexProcess {
+export class CodexProcess implements CliProcess {
   private opts: CodexProcessOptions;
   private codexPath: string;
   private threadId: string | null;
@@ -67,6 +159,16 @@ export class CodexProcess {
   private stopped = false;
   private totalInputTokens = 0;
   private totalOutputTokens = 0;
+  private totalCost = 0;
+  private lastContext: ContextUsage | undefined;
+  private appServer: CodexAppServer | null = null;
+  /** Set while the app-server is starting and the thread loading. */
+  private connecting = false;
+  /** The app-server could not be started; stay on exec for this session. */
+  private execFallback = false;
+  /** Prepend the system prompt to the next app-server turn (first turn of a new thread). */
+  private promptPending = false;
+  private appTurn: AppServerTurn | null = null;
 
   // Per-turn state
   private turnResolve: ((result: SendMessageResult) => void) | null = null;
@@ -84,17 +186,21 @@ export class CodexProcess {
   async sendMessage(
     text: string,
     onText?: (text: string) => void,
+    hooks?: ProgressHooks,
+    attachments: Attachment[] = [],
   ): Promise<SendMessageResult> {
     if (this.stopped) {
       return Promise.reject(new Error("CodexProcess has been stopped"));
     }
-    if (this.turnResolve) {
+    if (this.isBusy()) {
       return Promise.reject(new Error("Another message is already in-flight"));
     }
 
-    const log = this.opts.logger;
-    const result = await this.runTurn(text, onText, false);
-    return result;
+    if (this.opts.mode === "app-server" && !this.execFallback) {
+      const server = await this.ensureAppServer();
+      if (server) return this.runAppServerTurn(server, text, onText, hooks, attachments);
+    }
+    return this.runTurn(text, onText, false, hooks, attachments);
   }
 
   isAlive(): boolean {
@@ -102,10 +208,38 @@ export class CodexProcess {
   }
 
   isBusy(): boolean {
-    return this.currentChild !== null;
+    return this.currentChild !== null || this.connecting || this.appTurn !== null;
+  }
+
+  /**
+   * Stop the running turn. app-server turns are interrupted in place and
+   * resolve with their partial result; exec runs are killed (null).
+   */
+  interrupt(): Promise<SendMessageResult | null> {
+    const turn = this.appTurn;
+    if (!turn) {
+      this.abortTurn();
+      return Promise.resolve(null);
+    }
+    if (!turn.interruptTimer) {
+      this.opts.logger.info(`codex-process: interrupting turn ${turn.turnId ?? "(starting)"}`);
+      if (turn.turnId) this.sendInterrupt(turn);
+      turn.interruptTimer = setTimeout(() => {
+        if (this.appTurn !== turn) return;
+        this.opts.logger.warn("codex-process: interrupt timed out, restarting app-server");
+        this.appServer?.stop();
+        this.appServer = null;
+        this.failAppTurn(new Error("Turn aborted by user"));
+      }, INTERRUPT_TIMEOUT_MS);
+    }
+    return turn.promise.catch(() => null);
   }
 
   abortTurn(): void {
+    if (this.appTurn) {
+      void this.interrupt();
+      return;
+    }
     if (this.currentChild && !this.currentChild.killed && this.currentChild.pid) {
       this.currentChild.kill("SIGINT");
     }
@@ -122,6 +256,9 @@ export class CodexProcess {
     if (this.currentChild && !this.currentChild.killed) {
       this.currentChild.kill("SIGTERM");
     }
+    this.appServer?.stop();
+    this.appServer = null;
+    this.failAppTurn(new Error("CodexProcess has been stopped"));
     this.abortTurn();
   }
 
@@ -134,8 +271,11 @@ export class CodexProcess {
   }
 
   getTotalCost(): number {
-    // Codex doesn't report cost in USD; return 0
-    return 0;
+    return this.totalCost;
+  }
+
+  getContext(): ContextUsage | undefined {
+    return this.lastContext;
   }
 
   getCwd(): string | undefined {
@@ -152,19 +292,25 @@ export class CodexProcess {
     prompt: string,
     onText: ((text: string) => void) | undefined,
     isRetry: boolean,
+    hooks?: ProgressHooks,
+    attachments: Attachment[] = [],
   ): Promise<SendMessageResult> {
     const log = this.opts.logger;
     const isResume = !isRetry && !!this.threadId;
 
+    // Images are attached with --image; other files are referenced by path in the prompt
+    const images = attachments.filter((a) => a.kind === "image").map((a) => a.path);
+    const fullPrompt = prompt + describeAttachments(attachments.filter((a) => a.kind !== "image"));
     const args = isResume
-      ? this.buildResumeArgs(this.threadId!, prompt)
-      : this.buildExecArgs(prompt);
+      ? this.buildResumeArgs(this.threadId!, fullPrompt, images)
+      : this.buildExecArgs(fullPrompt, images);
 
     log.info(
       `codex-process: ${isResume ? "resume" : "exec"} ` +
       `threadId=${this.threadId?.slice(0, 12) ?? "none"} prompt=${prompt.length}chars`,
     );
 
+    const startedAt = Date.now();
     const stderrChunks: string[] = [];
     const child = spawn(this.codexPath, args, {
       stdio: ["pipe", "pipe", "pipe"],
@@ -183,7 +329,7 @@ export class CodexProcess {
     });
 
     try {
-      const turnResult = await this.processEvents(child, onText);
+      const turnResult = await this.processEvents(child, onText, hooks?.onProgress);
 
       const exitResult = await waitForExit(child);
       this.currentChild = null;
@@ -194,7 +340,7 @@ export class CodexProcess {
       if (isResume && noOutput && !isRetry) {
         log.warn("codex-process: resume produced no output, retrying as new exec");
         this.threadId = null;
-        return this.runTurn(prompt, onText, true);
+        return this.runTurn(prompt, onText, true, hooks, attachments);
       }
 
       if (turnResult.error) {
@@ -206,41 +352,347 @@ export class CodexProcess {
         throw new Error(`Codex failed (exit ${exitResult.code}):\n${stderr || "no output"}`);
       }
 
-      if (turnResult.usage) {
-        this.totalInputTokens += turnResult.usage.input_tokens;
-        this.totalOutputTokens += turnResult.usage.output_tokens;
+      // Summed over the turn's model calls, so an upper bound on the context size
+      const context = turnResult.usage ? { contextTokens: turnResult.usage.input_tokens } : undefined;
+      return this.turnResult(turnResult.finalResponse, turnResult.usage, turnResult.toolsUsed, startedAt, context);
+    } catch (err) {
+      this.currentChild = null;
+      throw err;
+    }
+  }
+
+  /** Account a finished turn's usage and cost, and build its result. */
+  private turnResult(
+    finalResponse: string,
+    raw: TokenUsage | null,
+    toolsUsed: ToolActivity[],
+    startedAt: number,
+    context: ContextUsage | undefined,
+    aborted = false,
+  ): SendMessageResult {
+    const price = priceFor(this.opts.prices ?? {}, this.opts.model);
+    let usage: TurnUsage | undefined;
+    let costUsd: number | undefined;
+    if (raw) {
+      // Codex counts cached tokens inside input_tokens; Anthropic usage keeps them apart
+      const cached = raw.cached_input_tokens ?? 0;
+      usage = {
+        input_tokens: raw.input_tokens - cached,
+        output_tokens: raw.output_tokens,
+        cache_read_input_tokens: cached,
+      };
+      this.totalInputTokens += raw.input_tokens;
+      this.totalOutputTokens += raw.output_tokens;
+      if (price) {
+        costUsd = computeCost(usage, price);
+        this.totalCost += costUsd;
       }
+    }
+    if (context) {
+      this.lastContext = { ...context, contextWindow: context.contextWindow ?? price?.contextWindow };
+    }
+
+    this.opts.logger.info(
+      `codex-process: turn ${aborted ? "interrupted" : "complete"} threadId=${this.threadId?.slice(0, 12) ?? "none"} ` +
+      `textLen=${finalResponse.length}` +
+      (costUsd !== undefined ? ` cost=$${costUsd.toFixed(4)}` : ""),
+    );
 
-      log.info(
-        `codex-process: turn complete threadId=${this.threadId?.slice(0, 12) ?? "none"} ` +
-        `textLen=${turnResult.finalResponse.length}`,
-      );
+    return {
+      text: finalResponse || (aborted ? "" : "Done."),
+      sessionId: this.threadId ?? "",
+      usage,
+      toolsUsed,
+      costUsd,
+      durationMs: Date.now() - startedAt,
+      context: this.lastContext,
+      ...(aborted ? { aborted } : {}),
+    };
+  }
 
-      return {
-        text: turnResult.finalResponse || "Done.",
-        sessionId: this.threadId ?? "",
+  // --- app-server mode ---
+
+  /** Running app-server with the session's thread loaded; null when the CLI cannot serve one. */
+  private async ensureAppServer(): Promise<CodexAppServer | null> {
+    if (this.appServer?.isAlive()) return this.appServer;
+
+    const log = this.opts.logger;
+    const server = new CodexAppServer({
+      codexPath: this.codexPath,
+      cwd: this.opts.cwd,
+      logger: log,
+      onNotification: (method, params) => this.handleNotification(method, params),
+      onRequest: (method, params) => this.handleServerRequest(method, params),
+      onExit: (reason) => {
+        if (this.appServer !== server) return;
+        this.appServer = null;
+        this.failAppTurn(new Error(`Codex app-server exited (${reason})`));
+      },
+    });
+
+    this.connecting = true;
+    try {
+      await server.start();
+      const threadParams = {
+        model: this.opts.model,
+        cwd: this.opts.cwd,
+        approvalPolicy: this.opts.onPermissionRequest ? "on-request" : "never",
+        sandbox: this.opts.sandbox ?? "workspace-write",
       };
+      type ThreadResponse = { thread: { id: string } };
+      let response: ThreadResponse | undefined;
+      if (this.threadId) {
+        response = await server.request<ThreadResponse>("thread/resume", { threadId: this.threadId, ...threadParams })
+          .catch((err) => {
+            log.warn(`codex-process: thread/resume failed (${err instanceof Error ? err.message : String(err)}), starting a new thread`);
+            return undefined;
+          });
+      }
+      if (!response) {
+        response = await server.request<ThreadResponse>("thread/start", threadParams);
+        this.promptPending = !!this.opts.systemPrompt;
+      }
+      this.threadId = response.thread.id;
     } catch (err) {
-      this.currentChild = null;
-      throw err;
+      server.stop();
+      log.warn(`codex-process: app-server unavailable (${err instanceof Error ? err.message : String(err)}), falling back to codex exec`);
+      this.execFallback = true;
+      return null;
+    } finally {
+      this.connecting = false;
     }
+
+    log.info(`codex-process: app-server thread ${this.threadId.slice(0, 12)} ready`);
+    this.appServer = server;
+    return server;
+  }
+
+  private runAppServerTurn(
+    server: CodexAppServer,
+    text: string,
+    onText: ((text: string) => void) | undefined,
+    hooks?: ProgressHooks,
+    attachments: Attachment[] = [],
+  ): Promise<SendMessageResult> {
+    // Images go as local image inputs; other files are referenced by path in the prompt
+    const images = attachments.filter((a) => a.kind === "image");
+    let prompt = text + describeAttachments(attachments.filter((a) => a.kind !== "image"));
+    if (this.promptPending) {
+      prompt = `${this.opts.systemPrompt}\n\n${prompt}`;
+      this.promptPending = false;
+    }
+
+    let resolve!: (result: SendMessageResult) => void;
+    let reject!: (err: Error) => void;
+    const promise = new Promise<SendMessageResult>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    const turn: AppServerTurn = {
+      turnId: null,
+      onText,
+      onProgress: hooks?.onProgress,
+      onUsage: hooks?.onUsage,
+      items: new Map(),
+      streamed: new Map(),
+      partial: "",
+      finalResponse: "",
+      toolsUsed: [],
+      startedTools: new Set(),
+      reasoningSent: new Map(),
+      usage: null,
+      error: null,
+      startedAt: Date.now(),
+      promise,
+      resolve,
+      reject,
+    };
+    this.appTurn = turn;
+
+    this.opts.logger.info(
+      `codex-process: turn/start threadId=${this.threadId?.slice(0, 12)} prompt=${text.length}chars images=${images.length}`,
+    );
+    server.request<{ turn: { id: string } }>("turn/start", {
+      threadId: this.threadId,
+      input: [
+        { type: "text", text: prompt },
+        ...images.map((a) => ({ type: "localImage", path: a.path })),
+      ],
+    })
+      .then((response) => this.setTurnId(turn, response.turn.id))
+      .catch((err) => {
+        if (this.appTurn === turn) this.failAppTurn(err instanceof Error ? err : new Error(String(err)));
+      });
+
+    return promise;
+  }
+
+  /** The turn ID arrives with `turn/started` or the `turn/start` response, whichever is first. */
+  private setTurnId(turn: AppServerTurn, turnId: string): void {
+    if (turn.turnId) return;
+    turn.turnId = turnId;
+    // An interrupt asked for before the ID was known
+    if (turn.interruptTimer) this.sendInterrupt(turn);
+  }
+
+  private sendInterrupt(turn: AppServerTurn): void {
+    this.appServer?.request("turn/interrupt", { threadId: this.threadId, turnId: turn.turnId })
+      .catch((err) => this.opts.logger.warn(`codex-process: turn/interrupt failed: ${err instanceof Error ? err.message : String(err)}`));
+  }
+
+  private handleNotification(method: string, params: Record<string, unknown>): void {
+    const turn = this.appTurn;
+    if (!turn) return;
+    // Late events of an earlier (interrupted) turn
+    if (turn.turnId && typeof params.turnId === "string" && params.turnId !== turn.turnId) return;
+
+    switch (method) {
+      case "turn/started": {
+        const turnId = (params.turn as { id?: string } | undefined)?.id;
+        if (turnId) this.setTurnId(turn, turnId);
+        break;
+      }
+
+      case "item/agentMessage/delta": {
+        const delta = typeof params.delta === "string" ? params.delta : "";
+        const itemId = String(params.itemId);
+        if (delta) {
+          turn.onText?.(delta);
+          turn.partial += delta;
+          turn.streamed.set(itemId, (turn.streamed.get(itemId) ?? 0) + delta.length);
+        }
+        break;
+      }
+
+      case "item/reasoning/summaryTextDelta":
+      case "item/reasoning/textDelta":
+        if (typeof params.delta === "string" && params.delta) {
+          turn.onProgress?.({ type: "thinking", text: params.delta });
+        }
+        break;
+
+      case "item/started":
+      case "item/completed": {
+        const item = params.item as ThreadItem;
+        const completed = method === "item/completed";
+        turn.items.set(item.id, item);
+        if (completed && item.type === "agentMessage" && typeof item.text === "string") {
+          // Whatever the deltas did not cover
+          const rest = item.text.slice(turn.streamed.get(item.id) ?? 0);
+          if (rest) turn.onText?.(rest);
+          turn.finalResponse = item.text;
+        }
+        if (turn.onProgress) this.emitItemProgress(item, completed, turn.onProgress, turn.startedTools, turn.reasoningSent);
+        const tool = completed ? describeItem(item) : null;
+        if (tool) turn.toolsUsed.push({ name: tool.name, id: item.id });
+        break;
+      }
+
+      case "thread/tokenUsage/updated": {
+        const usage = params.tokenUsage as AppServerTokenUsage;
+        // One update per model call; the turn's usage is the sum of the calls
+        turn.usage = {
+          input_tokens: (turn.usage?.input_tokens ?? 0) + usage.last.inputTokens,
+          cached_input_tokens: (turn.usage?.cached_input_tokens ?? 0) + usage.last.cachedInputTokens,
+          output_tokens: (turn.usage?.output_tokens ?? 0) + usage.last.outputTokens,
+        };
+        turn.onUsage?.({
+          input_tokens: turn.usage.input_tokens - (turn.usage.cached_input_tokens ?? 0),
+          output_tokens: turn.usage.output_tokens,
+          cache_read_input_tokens: turn.usage.cached_input_tokens,
+        }, this.opts.model);
+        turn.context = {
+          contextTokens: usage.last.inputTokens,
+          contextWindow: usage.modelContextWindow ?? undefined,
+        };
+        break;
+      }
+
+      case "error":
+        if (!params.willRetry) {
+          turn.error = (params.error as { message?: string } | undefined)?.message ?? "Codex error";
+        }
+        break;
+
+      case "turn/completed": {
+        const completed = params.turn as { status?: string; error?: { message?: string } | null };
+        this.appTurn = null;
+        clearTimeout(turn.interruptTimer);
+        if (completed.status === "failed") {
+          turn.reject(new Error(completed.error?.message ?? turn.error ?? "Codex turn failed"));
+          return;
+        }
+        const interrupted = completed.status === "interrupted";
+        turn.resolve(this.turnResult(
+          interrupted ? turn.finalResponse || turn.partial : turn.finalResponse,
+          turn.usage,
+          turn.toolsUsed,
+          turn.startedAt,
+          turn.context,
+          interrupted,
+        ));
+        break;
+      }
+
+      default:
+        break;
+    }
+  }
+
+  /** Command and patch approvals from the app-server, routed to the chat user. */
+  private async handleServerRequest(method: string, params: Record<string, unknown>): Promise<unknown> {
+    const isCommand = method === "item/commandExecution/requestApproval";
+    if (!isCommand && method !== "item/fileChange/requestApproval") {
+      throw new Error(`Unsupported request: ${method}`);
+    }
+
+    const handler = this.opts.onPermissionRequest;
+    const turn = this.appTurn;
+    if (!handler || !turn || turn.interruptTimer) return { decision: "decline" };
+
+    const item = turn.items.get(String(params.itemId));
+    const input: Record<string, unknown> = isCommand
+      ? { command: params.command ?? item?.command, cwd: params.cwd ?? item?.cwd }
+      : { path: (item && describeItem(item)?.input) ?? params.grantRoot };
+    if (typeof params.reason === "string") input.reason = params.reason;
+
+    const decision = await handler({
+      toolName: isCommand ? "shell" : "apply_patch",
+      input,
+      toolUseId: String(params.itemId),
+    }).catch((): PermissionDecision => ({ behavior: "deny", message: "Permission check failed" }));
+    return { decision: decision.behavior === "allow" ? "accept" : "decline" };
+  }
+
+  private failAppTurn(err: Error): void {
+    const turn = this.appTurn;
+    if (!turn) return;
+    this.appTurn = null;
+    clearTimeout(turn.interruptTimer);
+    turn.reject(err);
   }
 
   private async processEvents(
     child: ChildProcess,
     onText: ((text: string) => void) | undefined,
+    onProgress?: (event: ProgressEvent) => void,
   ): Promise<{
     finalResponse: string;
     usage: TokenUsage | null;
+    toolsUsed: ToolActivity[];
     error: string | null;
   }> {
     let finalResponse = "";
     let usage: TokenUsage | null = null;
     let error: string | null = null;
     let lastSentLength = 0;
+    const toolsUsed: ToolActivity[] = [];
+    const startedTools = new Set<string>();
+    /** Reasoning text already forwarded, per item. */
+    const reasoningSent = new Map<string, number>();
 
     if (!child.stdout) {
-      return { finalResponse, usage, error };
+      return { finalResponse, usage, toolsUsed, error };
     }
 
     const rl = readline.createInterface({
@@ -272,16 +724,21 @@ export class CodexProcess {
               lastSentLength = event.item.text.length;
             }
           }
+          if (onProgress) this.emitItemProgress(event.item, false, onProgress, startedTools, reasoningSent);
           break;
 
-        case "item.completed":
+        case "item.completed": {
           if (event.item.type === "agent_message" && event.item.text) {
             const delta = event.item.text.slice(lastSentLength);
             if (delta) onText?.(delta);
             finalResponse = event.item.text;
             lastSentLength = 0;
           }
+          if (onProgress) this.emitItemProgress(event.item, true, onProgress, startedTools, reasoningSent);
+          const tool = describeItem(event.item);
+          if (tool) toolsUsed.push({ name: tool.name, id: event.item.id });
           break;
+        }
 
         case "turn.completed":
           usage = event.usage;
@@ -300,13 +757,54 @@ export class CodexProcess {
       }
     }
 
-    return { finalResponse, usage, error };
+    return { finalResponse, usage, toolsUsed, error };
+  }
+
+  private emitItemProgress(
+    item: ThreadItem,
+    completed: boolean,
+    onProgress: (event: ProgressEvent) => void,
+    startedTools: Set<string>,
+    reasoningSent: Map<string, number>,
+  ): void {
+    if (item.type === "reasoning" && item.text) {
+      const sent = reasoningSent.get(item.id) ?? 0;
+      const delta = item.text.slice(sent);
+      if (delta) onProgress({ type: "thinking", text: delta });
+      reasoningSent.set(item.id, item.text.length);
+      return;
+    }
+
+    const tool = describeItem(item);
+    if (!tool) return;
+    // Some items (e.g. file_change) only arrive as item.completed
+    if (!startedTools.has(item.id)) {
+      startedTools.add(item.id);
+      onProgress({ type: "tool_start", id: item.id, name: tool.name, input: tool.input });
+    }
+    if (completed) {
+      onProgress({
+        type: "tool_end",
+        id: item.id,
+        name: tool.name,
+        isError: itemFailed(item),
+        output: preview(item.aggregated_output ?? item.result ?? item.error),
+      });
+    }
+  }
+
+  /** Config override rather than `--sandbox`, which `exec resume` does not take. */
+  private sandboxArgs(): string[] {
+    const sandbox = this.opts.sandbox ?? "workspace-write";
+    return sandbox === "workspace-write" ? ["--full-auto"] : ["-c", `sandbox_mode="${sandbox}"`];
   }
 
-  private buildExecArgs(prompt: string): string[] {
-    const args = ["exec", "--json", "--skip-git-repo-check", "--full-auto"];
+  private buildExecArgs(prompt: string, images: string[] = []): string[] {
+    const args = ["exec", "--json", "--skip-git-repo-check", ...this.sandboxArgs()];
     if (this.opts.cwd) args.push("--cd", this.opts.cwd);
     if (this.opts.model) args.push("--model", this.opts.model);
+    // One comma-joined value: `--image` takes several, so a separate one would swallow the prompt
+    if (images.length > 0) args.push(`--image=${images.join(",")}`);
     const fullPrompt = this.opts.systemPrompt
       ? `${this.opts.systemPrompt}\n\n${prompt}`
       : prompt;
@@ -314,14 +812,46 @@ export class CodexProcess {
     return args;
   }
 
-  private buildResumeArgs(threadId: string, prompt: string): string[] {
-    const args = ["exec", "resume", "--json", "--skip-git-repo-check", "--full-auto"];
+  private buildResumeArgs(threadId: string, prompt: string, images: string[] = []): string[] {
+    const args = ["exec", "resume", "--json", "--skip-git-repo-check", ...this.sandboxArgs()];
     if (this.opts.model) args.push("--model", this.opts.model);
+    if (images.length > 0) args.push(`--image=${images.join(",")}`);
     args.push(threadId, prompt);
     return args;
   }
 }
 
+export type CodexBackendConfig = {
+  codexPath?: string;
+  /** Model IDs routed to Codex (`codexModels`). */
+  models: string[];
+  mode?: CodexMode;
+};
+
+export function codexBackend(config: CodexBackendConfig): CliBackend {
+  const models = new Set(config.models);
+  return {
+    id: "codex",
+    label: "Codex CLI",
+    shortLabel: "Codex",
+    vendor: "openai",
+    models: () => [...models],
+    matchesModel: (model) => models.has(model),
+    create: (opts) => new CodexProcess({
+      codexPath: config.codexPath,
+      cwd: opts.cwd,
+      model: opts.model,
+      threadId: opts.resumeId,
+      systemPrompt: opts.systemPrompt,
+      sandbox: opts.permissions.codexSandbox,
+      prices: opts.prices,
+      mode: config.mode,
+      onPermissionRequest: opts.onPermissionRequest,
+      logger: opts.logger,
+    }),
+  };
+}
+
 function waitForExit(
   child: ChildProcess,
 ): Promise<{ code: number | null; signal: NodeJS.Signals | null }> {
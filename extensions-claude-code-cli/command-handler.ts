@@ -2,16 +2,50 @@ import { existsSync } from "node:fs";
 import { resolve } from "node:path";
 import { homedir } from "node:os";
 import type { SessionStore } from "./session-store.js";
+import type { AccountStatus } from "./account-pool.js";
+import { formatResetIn } from "./hud-ws.js";
+import { groupUsage, periodStart, sumUsage, type UsagePeriod, type UsageTotals } from "./usage-ledger.js";
 
 export interface CommandContext {
   conversationId: string;
   sendChunk: (text: string) => void;
   sendComplete: (text: string) => void;
   sendError: (text: string) => void;
+  /** Run work that must not overlap a turn, in the session's queue (the bridge provides it). */
+  exclusive?: <T>(fn: () => Promise<T>) => Promise<T>;
+  /** Agent scope of the caller's API key; returns an error message for agents it may not see. */
+  authorizeAgent?: (agent: string) => string | null;
+  /** Model scope of the caller's API key. */
+  allowsModel?: (model: string) => boolean;
 }
 
 export type CommandResult = { handled: true } | { handled: false };
 
+const PERIOD_LABELS: Record<UsagePeriod, string> = { today: "今日", week: "本週", month: "本月" };
+const PERIODS = new Set<string>(Object.keys(PERIOD_LABELS));
+const COST_USAGE = "用法: /cost [today|week|month] [by-agent|by-model]";
+
+/** "$1.2345 · 12 回合 · 45,000 輸入 / 3,000 輸出 tokens" */
+function formatTotals(t: UsageTotals): string {
+  const input = t.inputTokens + t.cacheReadTokens;
+  return `$${t.costUsd.toFixed(4)} · ${t.turns} 回合 · ${input.toLocaleString()} 輸入 / ${t.outputTokens.toLocaleString()} 輸出 tokens`;
+}
+
+/** "5h 42% · 7d 10%" from an account's last reported windows (rejected ones show when they reset). */
+function formatAccountLimits(account: AccountStatus): string {
+  const parts: string[] = [];
+  for (const [type, label] of [["five_hour", "5h"], ["seven_day", "7d"]] as const) {
+    const rl = account.rateLimits[type];
+    if (!rl) continue;
+    if (rl.status === "rejected" && rl.resetsAt) {
+      parts.push(`${label} 已達上限 (${formatResetIn(rl.resetsAt)} 後重置)`);
+    } else {
+      parts.push(`${label} ${rl.utilization !== undefined ? `${Math.round(rl.utilization * 100)}%` : "--"}`);
+    }
+  }
+  return parts.length > 0 ? parts.join(" · ") : "尚無用量資料";
+}
+
 export interface CommandHandlerConfig {
   defaultCwd: string;
   defaultModel?: string;
@@ -65,7 +99,7 @@ export class CommandHandler {
         this.handleHelp(ctx);
         return { handled: true };
       case "stop":
-        this.handleStop(ctx);
+        await this.handleStop(ctx);
         return { handled: true };
       case "resume":
         await this.handleResume(arg, ctx);
@@ -74,10 +108,21 @@ export class CommandHandler {
         await this.handleModel(arg, ctx);
         return { handled: true };
       case "compact":
-        await this.handleCompact(ctx);
+        await this.handleCompact(arg, ctx);
         return { handled: true };
       case "cost":
-        this.handleCost(ctx);
+        this.handleCost(arg, ctx);
+        return { handled: true };
+      case "approve":
+        this.handleApprove(arg, ctx);
+        return { handled: true };
+      case "deny":
+        this.handleDeny(arg, ctx);
+        return { handled: true };
+      case "btw":
+        // With a message, the bridge adds it to the running turn
+        if (arg) return { handled: false };
+        this.reply(ctx, "用法: /btw <訊息> — 在目前執行中的回合追加訊息");
         return { handled: true };
       default:
         return { handled: false };
@@ -94,8 +139,11 @@ export class CommandHandler {
       { id: "stop", name: "Stop", description: "中斷目前正在執行的操作" },
       { id: "resume", name: "Resume", description: "恢復 session (可帶 ID: /resume <id>)" },
       { id: "model", name: "Model", description: "切換模型" },
-      { id: "cost", name: "Cost", description: "顯示累計花費 / token 用量" },
-      { id: "compact", name: "Compact", description: "壓縮對話上下文" },
+      { id: "cost", name: "Cost", description: "花費 / token 用量報表 (/cost today|week|month|by-agent|by-model)" },
+      { id: "compact", name: "Compact", description: "壓縮對話上下文 (可帶摘要指示: /compact <指示>)" },
+      { id: "approve", name: "Approve", description: "允許待審核的工具權限 (/approve [id] [always])" },
+      { id: "deny", name: "Deny", description: "拒絕待審核的工具權限 (/deny [id] [原因])" },
+      { id: "btw", name: "Btw", description: "在執行中的回合追加訊息 (/btw <訊息>)" },
     ];
   }
 
@@ -143,8 +191,8 @@ export class CommandHandler {
       const status = s.alive ? "🟢" : "⚪";
       const id = s.sessionId.slice(0, 12);
       const model = s.model ?? "default";
-      const tag = s.backend === "codex" ? "[codex]" : s.backend === "gemini" ? "[gemini]" : "[claude]";
-      lines.push(`${status} ${id}  ${tag} ${model}  ${s.cwd}`);
+      const backend = s.account ? `${s.backend}@${s.account}` : s.backend;
+      lines.push(`${status} ${id}  [${backend}] ${model}  ${s.cwd}`);
     }
     lines.push("\n用法: /resume <session-id>");
     this.reply(ctx, lines.join("\n"));
@@ -158,7 +206,7 @@ export class CommandHandler {
       return;
     }
 
-    const backendLabel = entry.backend === "codex" ? "Codex CLI" : entry.backend === "gemini" ? "Gemini CLI" : "Claude CLI";
+    const backendLabel = this.store.getBackend(entry.backend)?.label ?? entry.backend;
     const lines = [
       `Backend: ${backendLabel}`,
       `狀態: ${entry.process.isAlive() ? "連線中" : "已停止"}`,
@@ -166,12 +214,31 @@ export class CommandHandler {
       `Session ID: ${entry.process.getSessionId().slice(0, 12) || "N/A"}`,
       `模型: ${entry.process.getModel() ?? "default"}`,
     ];
+    if (entry.account) lines.push(`帳號: ${entry.account}`);
 
     const cost = entry.process.getTotalCost();
     if (cost > 0) {
       lines.push(`累計花費: $${cost.toFixed(4)}`);
     }
 
+    const compaction = this.store.describeSession(ctx.conversationId)?.lastCompaction;
+    if (compaction) {
+      const after = compaction.afterTokens !== undefined ? compaction.afterTokens.toLocaleString() : "(下次對話後更新)";
+      lines.push(
+        `上次壓縮: ${compaction.trigger === "auto" ? "自動" : "手動"} · ${compaction.beforeTokens.toLocaleString()} → ${after} tokens`,
+      );
+    }
+
+    // Every pooled account, so the user sees where new sessions will go
+    const accounts = this.store.listAccounts();
+    if (accounts.length > 0) {
+      lines.push("", "帳號用量:");
+      for (const a of accounts) {
+        const mark = a.name === entry.account ? " ◀" : "";
+        lines.push(`  ${a.name}: ${formatAccountLimits(a)} · 本窗口 $${a.windowCostUsd.toFixed(4)} · ${a.sessions} sessions${mark}`);
+      }
+    }
+
     this.reply(ctx, lines.join("\n"));
   }
 
@@ -184,19 +251,28 @@ export class CommandHandler {
       "/stop — 中斷目前正在執行的操作",
       "/resume [id] — 恢復 session",
       "/model [name] — 切換模型",
-      "/cost — 顯示累計花費 / token 用量",
-      "/compact — 壓縮對話上下文",
+      "/cost [today|week|month] [by-agent|by-model] — 顯示花費 / token 用量報表",
+      "/compact [指示] — 壓縮對話上下文 (可指定摘要重點)",
+      "/approve [id] [always] — 允許工具權限 (always: 此 agent 之後不再詢問)",
+      "/deny [id] [原因] — 拒絕工具權限",
+      "/btw <訊息> — 在執行中的回合追加訊息 (Codex/Gemini 則排到下一回合)",
       "/help — 列出所有可用指令",
     ];
     this.reply(ctx, lines.join("\n"));
   }
 
-  private handleStop(ctx: CommandContext): void {
-    const entry = this.store.getSession(ctx.conversationId);
-    if (entry?.process.isBusy()) {
-      entry.process.abortTurn();
+  private async handleStop(ctx: CommandContext): Promise<void> {
+    this.store.approvals.cancelAll(ctx.conversationId, "The user stopped the turn");
+    const partial = await this.store.interruptTurn(ctx.conversationId);
+    if (!partial) {
+      this.reply(ctx, "已中斷目前操作");
+      return;
     }
-    this.reply(ctx, "已中斷目前操作");
+
+    const lines = ["已中斷目前操作", `已輸出: ${partial.text.length} 字`];
+    if (partial.usage) lines.push(`Token: ${partial.usage.input_tokens} 輸入 / ${partial.usage.output_tokens} 輸出`);
+    if (partial.costUsd !== undefined) lines.push(`本回合花費: $${partial.costUsd.toFixed(4)} USD`);
+    this.reply(ctx, lines.join("\n"));
   }
 
   private async handleResume(arg: string, ctx: CommandContext): Promise<void> {
@@ -223,9 +299,9 @@ export class CommandHandler {
     if (!arg) {
       const current = this.getModelForConversation(ctx.conversationId) ?? "default";
       const entry = this.store.getSession(ctx.conversationId);
-      const backendLabel = entry ? (entry.backend === "codex" ? "Codex" : entry.backend === "gemini" ? "Gemini" : "Claude") : "";
+      const backendLabel = entry ? this.store.getBackend(entry.backend)?.shortLabel ?? entry.backend : "";
 
-      const models = this.store.listModels();
+      const models = this.store.listModels().filter((m) => ctx.allowsModel?.(m.id) ?? true);
       const lines = [
         `目前模型: ${current}${backendLabel ? ` (${backendLabel})` : ""}`,
         "",
@@ -241,6 +317,11 @@ export class CommandHandler {
       return;
     }
 
+    if (ctx.allowsModel && !ctx.allowsModel(arg)) {
+      this.reply(ctx, `此 API key 不允許使用模型: ${arg}`);
+      return;
+    }
+
     // Check if backend type is changing
     const currentEntry = this.store.getSession(ctx.conversationId);
     const oldBackend = currentEntry?.backend;
@@ -255,50 +336,130 @@ export class CommandHandler {
 
     await this.store.destroySession(ctx.conversationId);
 
-    const backendLabel = newBackend === "codex" ? "Codex" : newBackend === "gemini" ? "Gemini" : "Claude";
+    const backendLabel = this.store.getBackend(newBackend)?.shortLabel ?? newBackend;
     this.reply(ctx, `已切換模型為 ${arg} (${backendLabel})\n下次對話將使用新模型（上下文已重置）`);
   }
 
-  private async handleCompact(ctx: CommandContext): Promise<void> {
+  private async handleCompact(arg: string, ctx: CommandContext): Promise<void> {
     const entry = this.store.getSession(ctx.conversationId);
-    if (!entry || !entry.process.isAlive()) {
+    if (!entry || !entry.process.isAlive() || !entry.process.getSessionId()) {
       this.reply(ctx, "目前無活躍的 session");
       return;
     }
-
-    const sid = entry.process.getSessionId();
-    if (!sid) {
-      this.reply(ctx, "目前無活躍的 session");
+    if (!entry.process.compact) {
+      this.reply(ctx, "目前的 backend 不支援壓縮上下文");
+      return;
+    }
+    if (entry.process.isBusy()) {
+      this.reply(ctx, "目前正在執行中，請稍後再試");
       return;
     }
 
-    const cwd = this.getCwdForConversation(ctx.conversationId);
-    const model = this.getModelForConversation(ctx.conversationId);
+    const compact = () => this.store.compactSession(ctx.conversationId, "manual", arg || undefined);
+    try {
+      const record = await (ctx.exclusive ? ctx.exclusive(compact) : compact());
+      this.reply(ctx, `已壓縮對話上下文\n壓縮前: ${record.beforeTokens.toLocaleString()} tokens`);
+    } catch (err) {
+      this.reply(ctx, `壓縮失敗: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
 
-    await this.store.destroySession(ctx.conversationId);
-    this.store.createSession(ctx.conversationId, {
-      cwd,
-      model,
-      resumeSessionId: sid,
-      compact: true,
-    });
-
-    this.reply(ctx, "已壓縮對話上下文");
+  /** Split "[id] rest" — the first word is an ID only if it names an open request. */
+  private splitApprovalArg(arg: string, conversationId: string): { id?: string; rest: string } {
+    const [first = "", ...rest] = arg.split(/\s+/);
+    const ids = this.store.approvals.listPending(conversationId).map((p) => p.id);
+    if (first && ids.includes(first.toLowerCase())) return { id: first, rest: rest.join(" ") };
+    return { rest: arg };
   }
 
-  private handleCost(ctx: CommandContext): void {
-    const entry = this.store.getSession(ctx.conversationId);
-    if (!entry) {
-      this.reply(ctx, "目前無使用資料");
+  private handleApprove(arg: string, ctx: CommandContext): void {
+    const { id, rest } = this.splitApprovalArg(arg, ctx.conversationId);
+    const always = rest.toLowerCase() === "always";
+    const approval = this.store.approvals.approve(ctx.conversationId, id, always);
+    if (!approval) {
+      this.reply(ctx, "目前沒有待審核的權限請求");
       return;
     }
+    const remaining = this.store.approvals.listPending(ctx.conversationId).length;
+    const lines = [`已允許 ${approval.toolName} [${approval.id}]`];
+    if (always) lines.push(`之後此 agent 的 ${approval.toolName} 不再詢問`);
+    if (remaining > 0) lines.push(`尚有 ${remaining} 個待審核請求`);
+    this.reply(ctx, lines.join("\n"));
+  }
 
-    const cost = entry.process.getTotalCost();
-    if (cost <= 0) {
-      this.reply(ctx, "目前無使用資料");
+  private handleDeny(arg: string, ctx: CommandContext): void {
+    const { id, rest } = this.splitApprovalArg(arg, ctx.conversationId);
+    const approval = this.store.approvals.deny(ctx.conversationId, id, rest || undefined);
+    if (!approval) {
+      this.reply(ctx, "目前沒有待審核的權限請求");
       return;
     }
+    const remaining = this.store.approvals.listPending(ctx.conversationId).length;
+    const lines = [`已拒絕 ${approval.toolName} [${approval.id}]`];
+    if (remaining > 0) lines.push(`尚有 ${remaining} 個待審核請求`);
+    this.reply(ctx, lines.join("\n"));
+  }
+
+  private handleCost(arg: string, ctx: CommandContext): void {
+    const words = arg.toLowerCase().split(/\s+/).filter(Boolean);
+    const period = words.find((w): w is UsagePeriod => PERIODS.has(w));
+    const group = words.includes("by-model") ? "model" : words.includes("by-agent") ? "agent" : undefined;
+    if (words.some((w) => !PERIODS.has(w) && w !== "by-agent" && w !== "by-model")) {
+      this.reply(ctx, COST_USAGE);
+      return;
+    }
+    const ledger = this.store.ledger;
+
+    // No arguments: this conversation's live session plus the agent's totals from the ledger
+    if (!period && !group) {
+      const lines: string[] = [];
+      const cost = this.store.getSession(ctx.conversationId)?.process.getTotalCost() ?? 0;
+      if (cost > 0) lines.push(`本 session 累計: $${cost.toFixed(4)} USD`);
+      for (const p of PERIODS as Set<UsagePeriod>) {
+        const totals = sumUsage(ledger.query({ since: periodStart(p), agent: ctx.conversationId }));
+        if (totals.turns > 0) lines.push(`${PERIOD_LABELS[p]}: ${formatTotals(totals)}`);
+      }
+      lines.push(...this.formatBudget(ctx.conversationId));
+      if (lines.length === 0) {
+        this.reply(ctx, `目前無使用資料\n${COST_USAGE}`);
+        return;
+      }
+      this.reply(ctx, [...lines, "", COST_USAGE].join("\n"));
+      return;
+    }
+
+    if (!ledger.enabled) {
+      this.reply(ctx, "未設定 state 目錄，無法保存用量紀錄");
+      return;
+    }
+    const p = period ?? "month";
+    // Only the agents the caller's API key may see, as in the JSON export
+    const all = ledger.query({ since: periodStart(p) });
+    const entries = ctx.authorizeAgent ? all.filter((e) => !ctx.authorizeAgent!(e.agent)) : all;
+    if (entries.length === 0) {
+      this.reply(ctx, `${PERIOD_LABELS[p]}無使用資料`);
+      return;
+    }
+
+    const by = group ?? "agent";
+    const lines = [
+      `${PERIOD_LABELS[p]}用量 (${entries.length === all.length ? "所有" : "可存取的"} agent): ${formatTotals(sumUsage(entries))}`,
+      "",
+      by === "agent" ? "依 agent:" : "依模型:",
+      ...groupUsage(entries, by).map((row) => `  ${row.key}: ${formatTotals(row)}`),
+    ];
+    this.reply(ctx, lines.join("\n"));
+  }
 
-    this.reply(ctx, `累計花費: $${cost.toFixed(4)} USD`);
+  /** The agent's spending caps with what is used of them ([] without caps). */
+  private formatBudget(agent: string): string[] {
+    const budget = this.store.budget;
+    const limits = budget.limitsFor(agent);
+    const spent = budget.spent(agent);
+    const lines: string[] = [];
+    if (limits.perDayUsd !== undefined) lines.push(`  今日: $${spent.day.toFixed(2)} / $${limits.perDayUsd.toFixed(2)}`);
+    if (limits.perMonthUsd !== undefined) lines.push(`  本月: $${spent.month.toFixed(2)} / $${limits.perMonthUsd.toFixed(2)}`);
+    if (limits.perTurnUsd !== undefined) lines.push(`  每回合上限: $${limits.perTurnUsd.toFixed(2)}`);
+    return lines.length > 0 ? ["預算:", ...lines] : [];
   }
 }
@@ -0,0 +1,182 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { ProgressEvent } from "./progress-events.js";
+import type { Incident } from "./process-supervisor.js";
+import type { ApprovalEvent } from "./approvals.js";
+import type { BudgetEvent } from "./budget.js";
+import type { SessionLifecycleEvent } from "./session-store.js";
+import type { HudData, TaskData } from "./hud-ws.js";
+import type { HudStateManager } from "./hud-state.js";
+
+type Logger = {
+  info: (msg: string) => void;
+  warn: (msg: string) => void;
+  error: (msg: string) => void;
+};
+
+export const EVENTS_PATH = "/v1/bridge/events";
+
+/** Everything the bridge broadcasts to local subscribers; `agent` is the session key. */
+export type BridgeEvent =
+  | { type: "hud"; agent: string; conversationId: string; data: HudData }
+  | { type: "task"; agent: string; conversationId?: string; data: TaskData }
+  | { type: "progress"; agent: string; conversationId?: string; data: ProgressEvent }
+  | { type: "session"; agent: string; data: SessionLifecycleEvent }
+  | { type: "incident"; agent: string; data: Incident }
+  | { type: "approval"; agent: string; data: ApprovalEvent }
+  | { type: "budget"; agent: string; data: BudgetEvent };
+
+type EventType = BridgeEvent["type"];
+
+const EVENT_TYPES = new Set<EventType>(["hud", "task", "progress", "session", "incident", "approval", "budget"]);
+/** Comment line sent to every subscriber so proxies keep idle streams open. */
+const KEEPALIVE_MS = 15_000;
+
+type Subscriber = {
+  res: ServerResponse;
+  /** Lowercase agent names; undefined = all the key may see. */
+  agents?: Set<string>;
+  conversations?: Set<string>;
+  types?: Set<EventType>;
+  authorizeAgent: (agent: string) => string | null;
+};
+
+function jsonResponse(res: ServerResponse, status: number, body: unknown): void {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Content-Length": Buffer.byteLength(payload),
+  });
+  res.end(payload);
+}
+
+/** Comma-separated query values; undefined when the parameter is absent or empty. */
+function listParam(url: URL, name: string): string[] | undefined {
+  const values = url.searchParams.getAll(name).flatMap((v) => v.split(",")).map((v) => v.trim()).filter(Boolean);
+  return values.length > 0 ? values : undefined;
+}
+
+function writeEvent(res: ServerResponse, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Server-sent event feed of HUD, task, tool activity and session lifecycle
+ * events of all agents, for local clients (terminal dashboards, editor
+ * extensions) that are not the Arinova chat backend.
+ *
+ * Subscribers filter with `?agent=a,b`, `?conversation=x` and `?types=hud,task`.
+ * A conversation filter also passes agent-wide events (sessions, incidents,
+ * ...) of the agent the conversation is mapped to. API keys scoped to agents
+ * only ever see those agents. On connect, the latest HUD state of every
+ * matching conversation is sent as `hud` and `task` events.
+ */
+export class EventHub {
+  /** Latest HUD state per conversation (recorded by the bridge), replayed to new subscribers. */
+  private state: HudStateManager;
+  private subscribers = new Set<Subscriber>();
+  private resolveAgent: (conversationId: string) => string | undefined;
+  private logger: Logger;
+  private keepalive: ReturnType<typeof setInterval> | null = null;
+
+  constructor(resolveAgent: (conversationId: string) => string | undefined, state: HudStateManager, logger: Logger) {
+    this.resolveAgent = resolveAgent;
+    this.state = state;
+    this.logger = logger;
+  }
+
+  publish(event: BridgeEvent): void {
+    for (const sub of this.subscribers) {
+      if (this.matches(sub, event)) writeEvent(sub.res, event.type, event);
+    }
+  }
+
+  /** `GET /v1/bridge/events`: hold the response open as an event stream. */
+  handleRequest(req: IncomingMessage, res: ServerResponse, authorizeAgent: (agent: string) => string | null): void {
+    const error = (status: number, message: string) =>
+      jsonResponse(res, status, { error: { message, type: "invalid_request_error", code: null } });
+    if (req.method !== "GET") return error(405, "Method not allowed");
+
+    const url = new URL(req.url ?? "", "http://localhost");
+    const agents = listParam(url, "agent");
+    const conversations = listParam(url, "conversation");
+    const types = listParam(url, "types");
+    const unknown = types?.find((t) => !EVENT_TYPES.has(t as EventType));
+    if (unknown) return error(400, `Unknown event type "${unknown}"; use ${[...EVENT_TYPES].join(", ")}`);
+    for (const agent of agents ?? []) {
+      const denied = authorizeAgent(agent);
+      if (denied) return error(403, denied);
+    }
+
+    const sub: Subscriber = {
+      res,
+      agents: agents ? new Set(agents.map((a) => a.toLowerCase())) : undefined,
+      conversations: conversations ? new Set(conversations) : undefined,
+      types: types ? new Set(types as EventType[]) : undefined,
+      authorizeAgent,
+    };
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    writeEvent(res, "ready", { agents: agents ?? null, conversations: conversations ?? null, types: types ?? null });
+    for (const snapshot of this.state.all().reverse()) {
+      const agent = snapshot.agentName ?? this.resolveAgent(snapshot.conversationId) ?? "";
+      const { conversationId } = snapshot;
+      const replay: BridgeEvent[] = [];
+      if (Object.keys(snapshot.hud).length > 0) replay.push({ type: "hud", agent, conversationId, data: snapshot.hud });
+      if (snapshot.task) replay.push({ type: "task", agent, conversationId, data: snapshot.task });
+      for (const event of replay) {
+        if (this.matches(sub, event)) writeEvent(res, event.type, event);
+      }
+    }
+
+    this.subscribers.add(sub);
+    this.startKeepalive();
+    this.logger.info(`event-stream: subscriber connected (${this.subscribers.size} open)`);
+    res.on("close", () => {
+      this.subscribers.delete(sub);
+      this.logger.info(`event-stream: subscriber disconnected (${this.subscribers.size} open)`);
+      if (this.subscribers.size === 0) this.stopKeepalive();
+    });
+  }
+
+  /** End every open stream (bridge shutdown). */
+  close(): void {
+    for (const sub of this.subscribers) sub.res.end();
+    this.subscribers.clear();
+    this.stopKeepalive();
+  }
+
+  // --- Internal ---
+
+  private matches(sub: Subscriber, event: BridgeEvent): boolean {
+    if (sub.types && !sub.types.has(event.type)) return false;
+    if (sub.authorizeAgent(event.agent)) return false;
+    if (sub.agents && !sub.agents.has(event.agent.toLowerCase())) return false;
+    if (sub.conversations) {
+      const conversationId = "conversationId" in event ? event.conversationId : undefined;
+      if (conversationId) return sub.conversations.has(conversationId);
+      // Agent-wide event: pass it when the agent serves one of the watched conversations
+      const agent = event.agent.toLowerCase();
+      return [...sub.conversations].some((conv) => this.resolveAgent(conv)?.toLowerCase() === agent);
+    }
+    return true;
+  }
+
+  private startKeepalive(): void {
+    if (this.keepalive) return;
+    this.keepalive = setInterval(() => {
+      for (const sub of this.subscribers) sub.res.write(": keepalive\n\n");
+    }, KEEPALIVE_MS);
+    this.keepalive.unref();
+  }
+
+  private stopKeepalive(): void {
+    if (this.keepalive) {
+      clearInterval(this.keepalive);
+      this.keepalive = null;
+    }
+  }
+}
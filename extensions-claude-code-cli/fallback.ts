@@ -0,0 +1,241 @@
+import type { RateLimitInfo } from "./claude-process.js";
+
+type Logger = {
+  info: (msg: string) => void;
+  warn: (msg: string) => void;
+  error: (msg: string) => void;
+};
+
+/** Models an agent falls back to while its own is rate-limited or keeps failing. */
+export type FallbackPolicy = {
+  /**
+   * Chain tried in order, e.g. ["opus", "sonnet", "gpt-5.3-codex", "gemini-2.5-pro"].
+   * A turn starts at its model's position; a model not in the chain goes before it.
+   */
+  models?: string[];
+  /** Failed turns in a row before a model is skipped (default: 2). */
+  maxFailures?: number;
+  /** How long a failing model is skipped, and a rate-limited one that reports no reset time (default: 15 min). */
+  cooldownMs?: number;
+  /** Recent exchanges carried into a model on another backend when it takes over (default: 6). */
+  summaryTurns?: number;
+};
+
+export interface FallbackConfig {
+  defaults?: FallbackPolicy;
+  /** Per-agent overrides (key = lowercase agent name), merged field by field over the defaults. */
+  agents?: Record<string, FallbackPolicy>;
+}
+
+export const DEFAULT_FALLBACK = { maxFailures: 2, cooldownMs: 15 * 60_000, summaryTurns: 6 };
+
+/** Chain entry for the agent's default model (no `/model` override, `claude-code-cli` requested). */
+const DEFAULT_MODEL = "default";
+/** Longest user message or reply kept per exchange for the summary. */
+const SUMMARY_CHARS = 600;
+
+type ModelHealth = {
+  failures: number;
+  /** Skipped until this time (ms). */
+  blockedUntil?: number;
+  /** Why, for the chat notice: "rate-limited (five_hour)", "failing (2 errors in a row)". */
+  reason?: string;
+};
+
+type Exchange = { user: string; reply: string };
+
+type AgentState = {
+  recent: Exchange[];
+  /** Model and backend of the agent's last answered turn. */
+  lastModel?: string;
+  lastBackend?: string;
+  /** The last turn was answered by a fallback instead of the agent's own model. */
+  fellBack?: boolean;
+  /** Session left on each backend when a fallback moved away from it, resumed on the way back. */
+  parked: Map<string, string>;
+};
+
+/** Model key of a turn: its model ID, or "default". */
+export function modelKey(model: string | undefined): string {
+  return model ?? DEFAULT_MODEL;
+}
+
+function formatWait(ms: number): string {
+  const min = Math.max(1, Math.round(ms / 60_000));
+  return min < 60 ? `${min} min` : `${Math.floor(min / 60)} h ${min % 60} min`;
+}
+
+/** Whether a failed turn's error reads like a rate limit or exhausted quota, whatever the CLI. */
+export function isRateLimitError(message: string): boolean {
+  return /rate.?limit|usage limit|quota|too many requests|\b429\b|resource.?exhausted/i.test(message);
+}
+
+/** Latest reset time (ms) of the windows a Claude process reports as rejected, if one is still ahead. */
+export function rejectedUntil(rateLimits: Map<string, RateLimitInfo> | undefined, now = Date.now()): { until: number; window: string } | undefined {
+  let found: { until: number; window: string } | undefined;
+  for (const [window, rl] of rateLimits ?? []) {
+    if (rl.status !== "rejected" || !rl.resetsAt) continue;
+    const until = rl.resetsAt * 1000;
+    if (until > now && (!found || until > found.until)) found = { until, window };
+  }
+  return found;
+}
+
+/**
+ * Per-agent fallback chains. Model health is shared by all agents (a
+ * rate-limited account or a broken CLI affects every conversation); the
+ * recent exchanges and parked sessions are per agent.
+ */
+export class FallbackChain {
+  private config: FallbackConfig;
+  private logger: Logger;
+  private health = new Map<string, ModelHealth>();
+  private agents = new Map<string, AgentState>();
+
+  constructor(config: FallbackConfig | undefined, logger: Logger) {
+    this.config = config ?? {};
+    this.logger = logger;
+  }
+
+  /** Effective policy of an agent (defaults merged with its overrides). */
+  policyFor(agent: string): Required<FallbackPolicy> {
+    const merged: FallbackPolicy = { ...this.config.defaults };
+    for (const [key, value] of Object.entries(this.config.agents?.[agent.toLowerCase()] ?? {})) {
+      if (value !== undefined) (merged as Record<string, unknown>)[key] = value;
+    }
+    return {
+      models: merged.models ?? [],
+      maxFailures: merged.maxFailures ?? DEFAULT_FALLBACK.maxFailures,
+      cooldownMs: merged.cooldownMs ?? DEFAULT_FALLBACK.cooldownMs,
+      summaryTurns: merged.summaryTurns ?? DEFAULT_FALLBACK.summaryTurns,
+    };
+  }
+
+  enabled(agent: string): boolean {
+    return this.policyFor(agent).models.length > 0;
+  }
+
+  /** Model a turn should run on: the requested one, or the first healthy one after it in the chain. */
+  route(agent: string, requested: string | undefined): string | undefined {
+    const chain = this.chainFrom(agent, requested);
+    const healthy = chain.find((key) => !this.isBlocked(key));
+    // Everything is down → try the agent's own model anyway
+    return healthy === undefined ? requested : this.toModel(healthy);
+  }
+
+  /** Next healthy model after `current` in the chain, or null when the chain is exhausted. */
+  next(agent: string, requested: string | undefined, current: string | undefined): string | undefined | null {
+    const chain = this.chainFrom(agent, requested);
+    const start = chain.indexOf(modelKey(current));
+    const healthy = chain.slice(start + 1).find((key) => !this.isBlocked(key));
+    return healthy === undefined ? null : this.toModel(healthy);
+  }
+
+  /**
+   * Count a failed turn against a model. A rate limit skips it until `until`
+   * (or the cooldown); other errors do once `maxFailures` are in a row.
+   * Returns whether the model is now skipped.
+   */
+  recordFailure(agent: string, model: string | undefined, error: string, rateLimit?: { until: number; window: string }): boolean {
+    const key = modelKey(model);
+    const policy = this.policyFor(agent);
+    const health = this.health.get(key) ?? { failures: 0 };
+    health.failures++;
+    this.health.set(key, health);
+
+    if (rateLimit || isRateLimitError(error)) {
+      health.blockedUntil = rateLimit?.until ?? Date.now() + policy.cooldownMs;
+      health.reason = rateLimit ? `rate-limited (${rateLimit.window})` : "rate-limited";
+    } else if (health.failures >= policy.maxFailures) {
+      health.blockedUntil = Date.now() + policy.cooldownMs;
+      health.reason = `failing (${health.failures} errors in a row)`;
+    } else {
+      return false;
+    }
+    this.logger.warn(
+      `fallback: ${key} ${health.reason}, skipped for ${formatWait(health.blockedUntil - Date.now())}: ${error.slice(0, 200)}`,
+    );
+    return true;
+  }
+
+  /** A turn answered: clear the model's failures and remember the exchange for later summaries. */
+  recordSuccess(agent: string, model: string | undefined, backend: string, fellBack: boolean, user: string, reply: string): void {
+    const key = modelKey(model);
+    this.health.delete(key);
+
+    const state = this.stateFor(agent);
+    const keep = this.policyFor(agent).summaryTurns;
+    state.recent = [...state.recent, { user: user.slice(0, SUMMARY_CHARS), reply: reply.slice(0, SUMMARY_CHARS) }].slice(-keep);
+    state.lastModel = key;
+    state.lastBackend = backend;
+    state.fellBack = fellBack;
+  }
+
+  /** Why a model is skipped right now, e.g. "rate-limited (five_hour), back in 42 min" (undefined when it is healthy). */
+  describeBlock(model: string | undefined): string | undefined {
+    const health = this.health.get(modelKey(model));
+    if (!health?.blockedUntil || health.blockedUntil <= Date.now()) return undefined;
+    return `${health.reason}, back in ${formatWait(health.blockedUntil - Date.now())}`;
+  }
+
+  /** Who answered the agent's last turn. */
+  lastAnswer(agent: string): { model?: string; backend?: string; fellBack: boolean } {
+    const state = this.agents.get(agent);
+    return { model: state?.lastModel, backend: state?.lastBackend, fellBack: state?.fellBack ?? false };
+  }
+
+  /** Remember the session a fallback moves away from, to resume when the agent comes back to that backend. */
+  park(agent: string, backend: string, sessionId: string): void {
+    if (sessionId) this.stateFor(agent).parked.set(backend, sessionId);
+  }
+
+  /** Take the session parked on a backend (once). */
+  unpark(agent: string, backend: string): string | undefined {
+    const parked = this.agents.get(agent)?.parked;
+    const sessionId = parked?.get(backend);
+    parked?.delete(backend);
+    return sessionId;
+  }
+
+  /** Recent exchanges as a prompt preamble for a model that has not seen them ("" when there are none). */
+  summary(agent: string): string {
+    const recent = this.agents.get(agent)?.recent ?? [];
+    if (recent.length === 0) return "";
+    const lines = recent.flatMap((x) => [`User: ${x.user}`, `Assistant: ${x.reply}`]);
+    return [
+      "[Context: this conversation moved here from another model. Recent exchanges:]",
+      ...lines,
+      "[End of context]",
+      "",
+      "",
+    ].join("\n");
+  }
+
+  // --- Internal ---
+
+  private stateFor(agent: string): AgentState {
+    let state = this.agents.get(agent);
+    if (!state) {
+      state = { recent: [], parked: new Map() };
+      this.agents.set(agent, state);
+    }
+    return state;
+  }
+
+  /** The agent's chain starting at the requested model (prepended when it is not in the chain). */
+  private chainFrom(agent: string, requested: string | undefined): string[] {
+    const chain = this.policyFor(agent).models;
+    const key = modelKey(requested);
+    const at = chain.indexOf(key);
+    return at === -1 ? [key, ...chain] : chain.slice(at);
+  }
+
+  private isBlocked(key: string): boolean {
+    const until = this.health.get(key)?.blockedUntil;
+    return until !== undefined && until > Date.now();
+  }
+
+  private toModel(key: string): string | undefined {
+    return key === DEFAULT_MODEL ? undefined : key;
+  }
+}
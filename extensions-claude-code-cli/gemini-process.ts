@@ -1,5 +1,10 @@
 import { spawn, execSync, type ChildProcess } from "node:child_process";
 import readline from "node:readline";
+import { preview, type ProgressEvent, type ProgressHooks } from "./progress-events.js";
+import type { Attachment } from "./attachments.js";
+import type { ContextUsage, SendMessageResult, ToolActivity, TurnUsage } from "./claude-process.js";
+import { computeCost, priceFor, type PriceTable } from "./pricing.js";
+import type { CliBackend, CliProcess } from "./backend-registry.js";
 
 type Logger = {
   info: (msg: string) => void;
@@ -7,27 +12,29 @@ type Logger = {
   error: (msg: string) => void;
 };
 
+/** Gemini `--approval-mode`; non-interactive runs deny whatever the mode would ask about. */
+export type GeminiApprovalMode = "default" | "auto_edit" | "yolo";
+
 export type GeminiProcessOptions = {
   geminiPath?: string;
   cwd?: string;
   model?: string;
   sessionId?: string;
   systemPrompt?: string;
+  /** Default: yolo. */
+  approvalMode?: GeminiApprovalMode;
+  /** Prices turns by model; without a price for the model, turns carry no cost. */
+  prices?: PriceTable;
   logger: Logger;
 };
 
-export type SendMessageResult = {
-  text: string;
-  sessionId: string;
-};
-
 // --- Gemini stream-json event types ---
 
 type GeminiEvent =
   | { type: "init"; session_id: string; model?: string }
   | { type: "message"; role: string; content: string; delta?: boolean }
-  | { type: "tool_use"; tool_name: string; [k: string]: unknown }
-  | { type: "tool_result"; tool_id: string; [k: string]: unknown }
+  | { type: "tool_use"; tool_name: string; tool_id?: string; parameters?: unknown; [k: string]: unknown }
+  | { type: "tool_result"; tool_id: string; status?: string; output?: unknown; error?: { message?: string }; [k: string]: unknown }
   | { type: "error"; severity: string; message: string }
   | { type: "result"; status: string; stats?: GeminiStats; error?: { message: string } };
 
@@ -54,9 +61,9 @@ function resolveGeminiBinary(configPath?: string): string {
  *
  * Each `sendMessage()` spawns a fresh `gemini -p` process.
  * Session IDs are tracked for resume across turns.
- * Exposes the same public interface as ClaudeProcess / CodexProcess.
+ * Implements CliProcess without the optional in-turn capabilities.
  */
-export class GeminiProcess {
+export class GeminiProcess implements CliProcess {
   private opts: GeminiProcessOptions;
   private geminiPath: string;
   private sid: string | null;
@@ -64,6 +71,10 @@ export class GeminiProcess {
   private stopped = false;
   private totalInputTokens = 0;
   private totalOutputTokens = 0;
+  private totalCost = 0;
+  private lastContext: ContextUsage | undefined;
+  /** Model named by the CLI's `init` event. */
+  private resolvedModel: string | undefined;
 
   private turnResolve: ((result: SendMessageResult) => void) | null = null;
   private turnReject: ((err: Error) => void) | null = null;
@@ -79,6 +90,8 @@ export class GeminiProcess {
   async sendMessage(
     text: string,
     onText?: (text: string) => void,
+    hooks?: ProgressHooks,
+    attachments: Attachment[] = [],
   ): Promise<SendMessageResult> {
     if (this.stopped) {
       return Promise.reject(new Error("GeminiProcess has been stopped"));
@@ -87,7 +100,11 @@ export class GeminiProcess {
       return Promise.reject(new Error("Another message is already in-flight"));
     }
 
-    return this.runTurn(text, onText, false);
+    // Gemini CLI inlines `@path` references (images included) into the prompt
+    const prompt = attachments.length === 0
+      ? text
+      : `${text}\n\n${attachments.map((a) => `@${a.path.replace(/ /g, "\\ ")}`).join(" ")}`;
+    return this.runTurn(prompt, onText, false, hooks);
   }
 
   isAlive(): boolean {
@@ -127,7 +144,11 @@ export class GeminiProcess {
   }
 
   getTotalCost(): number {
-    return 0;
+    return this.totalCost;
+  }
+
+  getContext(): ContextUsage | undefined {
+    return this.lastContext;
   }
 
   getCwd(): string | undefined {
@@ -135,7 +156,7 @@ export class GeminiProcess {
   }
 
   getModel(): string | undefined {
-    return this.opts.model;
+    return this.resolvedModel ?? this.opts.model;
   }
 
   // --- Internal ---
@@ -144,6 +165,7 @@ export class GeminiProcess {
     prompt: string,
     onText: ((text: string) => void) | undefined,
     isRetry: boolean,
+    hooks?: ProgressHooks,
   ): Promise<SendMessageResult> {
     const log = this.opts.logger;
     const isResume = !isRetry && !!this.sid;
@@ -157,6 +179,7 @@ export class GeminiProcess {
       `sid=${this.sid?.slice(0, 12) ?? "none"} prompt=${prompt.length}chars`,
     );
 
+    const startedAt = Date.now();
     const stderrChunks: string[] = [];
     const child = spawn(this.geminiPath, args, {
       stdio: ["pipe", "pipe", "pipe"],
@@ -175,7 +198,7 @@ export class GeminiProcess {
     });
 
     try {
-      const turnResult = await this.processEvents(child, onText);
+      const turnResult = await this.processEvents(child, onText, hooks?.onProgress);
 
       const exitResult = await waitForExit(child);
       this.currentChild = null;
@@ -185,7 +208,7 @@ export class GeminiProcess {
       if (isResume && noOutput && !isRetry) {
         log.warn("gemini-process: resume produced no output, retrying as new exec");
         this.sid = null;
-        return this.runTurn(prompt, onText, true);
+        return this.runTurn(prompt, onText, true, hooks);
       }
 
       if (turnResult.error) {
@@ -197,19 +220,45 @@ export class GeminiProcess {
         throw new Error(`Gemini failed (exit ${exitResult.code}):\n${stderr || "no output"}`);
       }
 
-      if (turnResult.usage) {
-        this.totalInputTokens += turnResult.usage.inputTokens;
-        this.totalOutputTokens += turnResult.usage.outputTokens;
+      const price = priceFor(this.opts.prices ?? {}, this.getModel());
+      const stats = turnResult.stats;
+      let usage: TurnUsage | undefined;
+      let costUsd: number | undefined;
+      if (stats) {
+        // Gemini counts cached tokens inside input_tokens; Anthropic usage keeps them apart
+        const cached = stats.cached ?? 0;
+        usage = {
+          input_tokens: stats.input_tokens - cached,
+          output_tokens: stats.output_tokens,
+          cache_read_input_tokens: cached,
+        };
+        this.totalInputTokens += stats.input_tokens;
+        this.totalOutputTokens += stats.output_tokens;
+        // Summed over the turn's model calls, so an upper bound on the context size
+        this.lastContext = {
+          contextTokens: stats.input_tokens,
+          contextWindow: price?.contextWindow,
+        };
+        if (price) {
+          costUsd = computeCost(usage, price);
+          this.totalCost += costUsd;
+        }
       }
 
       log.info(
         `gemini-process: turn complete sid=${this.sid?.slice(0, 12) ?? "none"} ` +
-        `textLen=${turnResult.finalResponse.length}`,
+        `textLen=${turnResult.finalResponse.length}` +
+        (costUsd !== undefined ? ` cost=$${costUsd.toFixed(4)}` : ""),
       );
 
       return {
         text: turnResult.finalResponse || "Done.",
         sessionId: this.sid ?? "",
+        usage,
+        toolsUsed: turnResult.toolsUsed,
+        costUsd,
+        durationMs: stats?.duration_ms ?? Date.now() - startedAt,
+        context: this.lastContext,
       };
     } catch (err) {
       this.currentChild = null;
@@ -220,17 +269,21 @@ export class GeminiProcess {
   private async processEvents(
     child: ChildProcess,
     onText: ((text: string) => void) | undefined,
+    onProgress?: (event: ProgressEvent) => void,
   ): Promise<{
     finalResponse: string;
-    usage: { inputTokens: number; outputTokens: number } | null;
+    stats: GeminiStats | null;
+    toolsUsed: ToolActivity[];
     error: string | null;
   }> {
     let finalResponse = "";
-    let usage: { inputTokens: number; outputTokens: number } | null = null;
+    let stats: GeminiStats | null = null;
     let error: string | null = null;
+    const toolNames = new Map<string, string>();
+    const toolsUsed: ToolActivity[] = [];
 
     if (!child.stdout) {
-      return { finalResponse, usage, error };
+      return { finalResponse, stats, toolsUsed, error };
     }
 
     const rl = readline.createInterface({
@@ -251,6 +304,7 @@ export class GeminiProcess {
       switch (event.type) {
         case "init":
           this.sid = event.session_id;
+          if (event.model) this.resolvedModel = event.model;
           break;
 
         case "message":
@@ -266,14 +320,27 @@ export class GeminiProcess {
           }
           break;
 
+        case "tool_use": {
+          const id = event.tool_id ?? `tool-${toolNames.size + 1}`;
+          toolNames.set(id, event.tool_name);
+          toolsUsed.push({ name: event.tool_name, id });
+          onProgress?.({ type: "tool_start", id, name: event.tool_name, input: preview(event.parameters) });
+          break;
+        }
+
+        case "tool_result":
+          onProgress?.({
+            type: "tool_end",
+            id: event.tool_id,
+            name: toolNames.get(event.tool_id) ?? "unknown",
+            isError: event.status === "error",
+            output: preview(event.status === "error" ? event.error?.message : event.output),
+          });
+          break;
+
         case "result":
           if (event.status === "success") {
-            if (event.stats) {
-              usage = {
-                inputTokens: event.stats.input_tokens,
-                outputTokens: event.stats.output_tokens,
-              };
-            }
+            stats = event.stats ?? null;
           } else {
             error = event.error?.message ?? "Unknown error";
           }
@@ -290,25 +357,58 @@ export class GeminiProcess {
       }
     }
 
-    return { finalResponse, usage, error };
+    return { finalResponse, stats, toolsUsed, error };
+  }
+
+  private approvalArgs(): string[] {
+    const mode = this.opts.approvalMode ?? "yolo";
+    return mode === "yolo" ? ["--yolo"] : ["--approval-mode", mode];
   }
 
   private buildExecArgs(prompt: string): string[] {
     const fullPrompt = this.opts.systemPrompt
       ? `${this.opts.systemPrompt}\n\n${prompt}`
       : prompt;
-    const args = ["-p", fullPrompt, "--output-format", "stream-json", "--yolo"];
+    const args = ["-p", fullPrompt, "--output-format", "stream-json", ...this.approvalArgs()];
     if (this.opts.model) args.push("--model", this.opts.model);
     return args;
   }
 
   private buildResumeArgs(sessionId: string, prompt: string): string[] {
-    const args = ["-p", prompt, "--output-format", "stream-json", "--yolo", "--resume", sessionId];
+    const args = ["-p", prompt, "--output-format", "stream-json", ...this.approvalArgs(), "--resume", sessionId];
     if (this.opts.model) args.push("--model", this.opts.model);
     return args;
   }
 }
 
+export type GeminiBackendConfig = {
+  geminiPath?: string;
+  /** Model IDs routed to Gemini (`geminiModels`). */
+  models: string[];
+};
+
+export function geminiBackend(config: GeminiBackendConfig): CliBackend {
+  const models = new Set(config.models);
+  return {
+    id: "gemini",
+    label: "Gemini CLI",
+    shortLabel: "Gemini",
+    vendor: "google",
+    models: () => [...models],
+    matchesModel: (model) => models.has(model),
+    create: (opts) => new GeminiProcess({
+      geminiPath: config.geminiPath,
+      cwd: opts.cwd,
+      model: opts.model,
+      sessionId: opts.resumeId,
+      systemPrompt: opts.systemPrompt,
+      approvalMode: opts.permissions.geminiApprovalMode,
+      prices: opts.prices,
+      logger: opts.logger,
+    }),
+  };
+}
+
 function waitForExit(
   child: ChildProcess,
 ): Promise<{ code: number | null; signal: NodeJS.Signals | null }> {
@@ -1,6 +1,7 @@
-import * as pty from "node-pty";
-import { execSync } from "node:child_process";
-import { statSync } from "node:fs";
+import { spawn, type ChildProcess } from "node:child_process";
+import readline from "node:readline";
+import { parseRateLimitInfo, type RateLimitInfo } from "./claude-process.js";
+import type { CliAccount } from "./account-pool.js";
 
 type Logger = {
   info: (msg: string) => void;
@@ -10,182 +11,152 @@ type Logger = {
 
 export type HudMonitorOptions = {
   claudePath?: string;
-  /** Minimum interval between pings (debounce). Default: 60s */
-  debounceMs?: number;
+  /**
+   * Run a one-word probe turn on a login no session has reported limits for
+   * in this long (default: 0 = never). Each probe costs a few tokens.
+   */
+  probeAfterMs?: number;
+  /** Model of the probe turn. Default: haiku */
+  probeModel?: string;
+  /** Pool logins, so a probe runs under the right config directory. */
+  accounts?: CliAccount[];
   logger: Logger;
 };
 
-const DEFAULT_DEBOUNCE_MS = 60_000;
-const STATUS_FILE = "/tmp/claude-status.json";
+/** Key of the login sessions use without an account pool. */
+const DEFAULT_LOGIN = "default";
+const DEFAULT_PROBE_MODEL = "haiku";
+const PROBE_TIMEOUT_MS = 30_000;
+
+type LoginLimits = {
+  /** Latest report per window type ("five_hour", "seven_day", ...). */
+  windows: Map<string, RateLimitInfo>;
+  reportedAt: number;
+};
 
 /**
- * Spawns an interactive Claude session (haiku) in a PTY and sends a short
- * prompt to trigger an API call when notified, keeping /tmp/claude-status.json
- * up to date with rate limit data.
- *
- * `notify()` returns a Promise that resolves once the status file is updated.
+ * Rate-limit state for the HUD, per Claude login. Every Claude session
+ * passes on the `rate_limit_event`s its CLI emits, so the limits are as
+ * fresh as the last turn on that login. When none ran for a while (e.g.
+ * only Codex turns), `notify()` can run a short probe turn to refresh them.
  */
 export class HudMonitor {
-  private ptyProcess: pty.IPty | null = null;
   private opts: HudMonitorOptions;
-  private started = false;
-  private ready = false;
-  private debounceMs: number;
-  private lastPingAt = 0;
-  private pendingTimer: ReturnType<typeof setTimeout> | null = null;
-  /** Pending resolve callbacks waiting for status file update. */
-  private waiters: Array<() => void> = [];
+  private logins = new Map<string, LoginLimits>();
+  /** Running probe per login, shared by everyone waiting on it. */
+  private probes = new Map<string, Promise<void>>();
+  private children = new Set<ChildProcess>();
+  private stopped = false;
 
   constructor(opts: HudMonitorOptions) {
     this.opts = opts;
-    this.debounceMs = opts.debounceMs ?? DEFAULT_DEBOUNCE_MS;
   }
 
+  /** With probes on, fetch the default login's limits so the HUD has them before the first turn. */
   start(): void {
-    if (this.started) return;
-    this.started = true;
-
-    const log = this.opts.logger;
-    let claudePath = this.opts.claudePath ?? "claude";
-    // Resolve full path if needed (node-pty doesn't search PATH like shell does)
-    if (!claudePath.includes("/")) {
-      try {
-        claudePath = execSync(`which ${claudePath}`, { encoding: "utf-8" }).trim();
-      } catch { /* keep as-is */ }
+    this.stopped = false;
+    if (this.opts.probeAfterMs) {
+      this.opts.logger.info(`hud-monitor: probing logins idle for ${this.opts.probeAfterMs}ms`);
+      void this.notify();
     }
-    log.info(`hud-monitor: resolved claudePath=${claudePath}`);
-
-    try {
-      this.ptyProcess = pty.spawn("/bin/bash", ["-l", "-c", `${claudePath} --model claude-haiku-4-5-20251001`], {
-        name: "xterm-256color",
-        cols: 120,
-        rows: 24,
-        env: { ...process.env, TERM: "xterm-256color" },
-      });
-
-      log.info(`hud-monitor: started (pid ${this.ptyProcess.pid}, debounce ${this.debounceMs}ms)`);
+  }
 
-      this.ptyProcess.onExit(({ exitCode }) => {
-        log.info(`hud-monitor: claude exited (code ${exitCode})`);
-        this.cleanup();
-      });
+  /** Fold in a window a session on `account` reported (undefined = the default login). */
+  record(account: string | undefined, rl: RateLimitInfo): void {
+    const key = account ?? DEFAULT_LOGIN;
+    const login = this.logins.get(key) ?? { windows: new Map(), reportedAt: 0 };
+    login.windows.set(rl.rateLimitType ?? "unknown", { ...rl });
+    login.reportedAt = Date.now();
+    this.logins.set(key, login);
+  }
 
-      // Discard output (statusLine script handles writing to file)
-      this.ptyProcess.onData(() => {});
-
-      // Send initial prompt to populate rate limit cache
-      setTimeout(() => {
-        if (!this.ptyProcess) return;
-        this.ptyProcess.write("hi\r");
-      }, 10000);
-
-      // Mark ready after first API call likely completes
-      setTimeout(() => {
-        this.ready = true;
-        log.info("hud-monitor: ready for notifications");
-      }, 25000);
-    } catch (err) {
-      log.error(`hud-monitor: failed to start: ${err instanceof Error ? err.message : String(err)}`);
-      this.started = false;
-    }
+  /** Latest windows of a login, keyed by type. */
+  get(account?: string): Record<string, RateLimitInfo> {
+    return Object.fromEntries(this.logins.get(account ?? DEFAULT_LOGIN)?.windows ?? []);
   }
 
   /**
-   * Call this when any session completes a turn.
-   * Returns a Promise that resolves once the status file is updated.
+   * Call after a turn, before reading `get()`. Resolves right away unless
+   * probes are on and the login's limits are stale; then once the probe ran.
    */
-  notify(): Promise<void> {
-    if (!this.ready || !this.ptyProcess) return Promise.resolve();
-
-    const now = Date.now();
-    const elapsed = now - this.lastPingAt;
-
-    if (elapsed >= this.debounceMs) {
-      return this.sendPing();
-    } else if (!this.pendingTimer) {
-      const delay = this.debounceMs - elapsed;
-      return new Promise<void>((resolve) => {
-        this.pendingTimer = setTimeout(() => {
-          this.pendingTimer = null;
-          this.sendPing().then(resolve);
-        }, delay);
-      });
+  notify(account?: string): Promise<void> {
+    const probeAfterMs = this.opts.probeAfterMs ?? 0;
+    if (!probeAfterMs || this.stopped) return Promise.resolve();
+
+    const key = account ?? DEFAULT_LOGIN;
+    const reportedAt = this.logins.get(key)?.reportedAt ?? 0;
+    if (Date.now() - reportedAt < probeAfterMs) return Promise.resolve();
+
+    let probe = this.probes.get(key);
+    if (!probe) {
+      probe = this.probe(account).finally(() => this.probes.delete(key));
+      this.probes.set(key, probe);
     }
-    // A pending ping is already scheduled — wait for it
-    return new Promise<void>((resolve) => {
-      this.waiters.push(resolve);
-    });
+    return probe;
   }
 
   stop(): void {
-    this.cleanup();
+    this.stopped = true;
+    for (const child of this.children) child.kill("SIGTERM");
+    this.children.clear();
   }
 
-  private sendPing(): Promise<void> {
-    if (!this.ptyProcess) return Promise.resolve();
-    this.lastPingAt = Date.now();
+  // --- Internal ---
 
-    // Snapshot mtime before ping
-    const mtimeBefore = this.getStatusMtime();
-
-    try {
-      this.ptyProcess.write("hi\r");
-      this.opts.logger.info("hud-monitor: ping sent");
-    } catch {
-      this.opts.logger.warn("hud-monitor: failed to send ping");
-      this.flushWaiters();
-      return Promise.resolve();
-    }
+  /** One `claude -p` turn on the login; its rate-limit events are recorded like a session's. */
+  private probe(account: string | undefined): Promise<void> {
+    const log = this.opts.logger;
+    const configDir = account ? this.opts.accounts?.find((a) => a.name === account)?.configDir : undefined;
+    if (account && !configDir) return Promise.resolve();
+
+    const label = account ?? DEFAULT_LOGIN;
+    const args = [
+      "-p", "hi",
+      "--output-format", "stream-json",
+      "--verbose",
+      "--model", this.opts.probeModel ?? DEFAULT_PROBE_MODEL,
+      "--max-turns", "1",
+    ];
 
-    // Poll for status file update (max ~15s)
     return new Promise<void>((resolve) => {
-      let attempts = 0;
-      const check = () => {
-        attempts++;
-        const mtimeNow = this.getStatusMtime();
-        if (mtimeNow > mtimeBefore) {
-          this.flushWaiters();
-          resolve();
-          return;
-        }
-        if (attempts >= 30) {
-          this.opts.logger.warn("hud-monitor: status file not updated after ping, giving up");
-          this.flushWaiters();
-          resolve();
-          return;
-        }
-        setTimeout(check, 500);
+      const child = spawn(this.opts.claudePath ?? "claude", args, {
+        stdio: ["ignore", "pipe", "ignore"],
+        env: configDir ? { ...process.env, CLAUDE_CONFIG_DIR: configDir } : process.env,
+      });
+      this.children.add(child);
+      let windows = 0;
+      let settled = false;
+
+      const timer = setTimeout(() => {
+        log.warn(`hud-monitor: probe on ${label} timed out`);
+        child.kill("SIGTERM");
+      }, PROBE_TIMEOUT_MS);
+
+      const finish = (outcome: string) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        this.children.delete(child);
+        log.info(`hud-monitor: probe on ${label} ${outcome}, ${windows} window(s) reported`);
+        resolve();
       };
-      setTimeout(check, 500);
-    });
-  }
-
-  private getStatusMtime(): number {
-    try {
-      return statSync(STATUS_FILE).mtimeMs;
-    } catch {
-      return 0;
-    }
-  }
 
-  private flushWaiters(): void {
-    const w = this.waiters.splice(0);
-    for (const resolve of w) resolve();
-  }
+      readline.createInterface({ input: child.stdout!, crlfDelay: Infinity }).on("line", (line) => {
+        let event: Record<string, unknown>;
+        try {
+          event = JSON.parse(line) as Record<string, unknown>;
+        } catch {
+          return; // skip non-JSON output
+        }
+        const info = event.rate_limit_info as Record<string, unknown> | undefined;
+        if (event.type === "rate_limit_event" && info) {
+          this.record(account, parseRateLimitInfo(info));
+          windows++;
+        }
+      });
 
-  private cleanup(): void {
-    if (this.pendingTimer) {
-      clearTimeout(this.pendingTimer);
-      this.pendingTimer = null;
-    }
-    if (this.ptyProcess) {
-      try {
-        this.ptyProcess.kill();
-      } catch { /* already dead */ }
-      this.ptyProcess = null;
-    }
-    this.flushWaiters();
-    this.started = false;
-    this.ready = false;
+      child.on("error", (err) => finish(`failed (${err.message})`));
+      child.on("close", (code) => finish(`exited (code ${code})`));
+    });
   }
 }
@@ -0,0 +1,68 @@
+import type { HudData, TaskData } from "./hud-ws.js";
+
+/** What the HUD of one conversation currently shows. */
+export type HudSnapshot = {
+  conversationId: string;
+  agentName?: string;
+  /** Latest context, limits and model, merged over earlier pushes. */
+  hud: HudData;
+  /** The agent's current or last task. */
+  task?: TaskData;
+  updatedAt: number;
+};
+
+/** Conversations kept; the least recently updated are dropped first. */
+const MAX_CONVERSATIONS = 200;
+
+/**
+ * Latest HUD state per conversation, so it can be replayed after the HUD
+ * socket reconnects and served to `hud_request`s.
+ */
+export class HudStateManager {
+  private states = new Map<string, HudSnapshot>();
+
+  /** Merge a HUD push into the conversation's snapshot. */
+  updateHud(conversationId: string, agentName: string | undefined, data: HudData): HudSnapshot {
+    const state = this.touch(conversationId, agentName);
+    state.hud = { ...state.hud, ...data };
+    return state;
+  }
+
+  updateTask(conversationId: string, agentName: string | undefined, task: TaskData): HudSnapshot {
+    const state = this.touch(conversationId, agentName);
+    state.task = task;
+    return state;
+  }
+
+  get(conversationId: string): HudSnapshot | undefined {
+    return this.states.get(conversationId);
+  }
+
+  /** Snapshots of an agent's conversations, most recent first. */
+  forAgent(agentName: string): HudSnapshot[] {
+    const name = agentName.toLowerCase();
+    return this.all().filter((s) => s.agentName?.toLowerCase() === name);
+  }
+
+  /** Every snapshot, most recent first. */
+  all(): HudSnapshot[] {
+    return [...this.states.values()].reverse();
+  }
+
+  // --- Internal ---
+
+  /** The conversation's snapshot, moved to the most recent end of the map. */
+  private touch(conversationId: string, agentName: string | undefined): HudSnapshot {
+    const state = this.states.get(conversationId) ?? { conversationId, hud: {}, updatedAt: 0 };
+    this.states.delete(conversationId);
+    if (agentName) state.agentName = agentName;
+    state.updatedAt = Date.now();
+    this.states.set(conversationId, state);
+
+    while (this.states.size > MAX_CONVERSATIONS) {
+      const oldest = this.states.keys().next().value as string;
+      this.states.delete(oldest);
+    }
+    return state;
+  }
+}
@@ -1,3 +1,8 @@
+import type { Incident } from "./process-supervisor.js";
+import type { ApprovalEvent } from "./approvals.js";
+import type { BudgetEvent } from "./budget.js";
+import type { HudStateManager } from "./hud-state.js";
+
 type Logger = {
   info: (msg: string) => void;
   warn: (msg: string) => void;
@@ -9,20 +14,39 @@ export type HudData = {
   limit5h?: { percent: number; resetIn: string };
   limit7d?: { percent: number; resetIn: string };
   model?: string;
+  /** Claude account the conversation runs on (multi-account pools). */
+  account?: string;
+};
+
+/** Server → bridge messages. */
+type HudRequest = {
+  type?: string;
+  /** Echoed back in the `hud_snapshot` reply. */
+  requestId?: string | number;
+  conversationId?: string;
+  agentName?: string;
 };
 
 export type TaskData =
   | { status: "started"; task: string }
   | { status: "completed"; durationMs?: number; costUsd?: number; numTurns?: number };
 
+/** Events (incidents, approvals, budgets, ...) held while disconnected; the oldest are dropped first. */
+const MAX_OUTBOX = 100;
+
 /**
  * WebSocket client that pushes HUD updates (context, rate limits, model)
  * to the arinova-chat backend.
  *
  * Single global connection with automatic reconnect (exponential backoff).
+ * HUD and task state is kept per conversation and replayed after every
+ * (re)connect; other events sent while disconnected are queued.
  */
 export class HudWebSocket {
+  /** Latest HUD state per conversation, recorded by the bridge and shared with the event stream. */
+  private state: HudStateManager;
   private ws: WebSocket | null = null;
+  private outbox: unknown[] = [];
   private url: string;
   private token: string;
   private logger: Logger;
@@ -30,9 +54,10 @@ export class HudWebSocket {
   private reconnectDelay = 1000;
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
 
-  constructor(url: string, token: string, logger: Logger) {
+  constructor(url: string, token: string, state: HudStateManager, logger: Logger) {
     this.url = url;
     this.token = token;
+    this.state = state;
     this.logger = logger;
   }
 
@@ -47,6 +72,7 @@ export class HudWebSocket {
       this.ws.addEventListener("open", () => {
         this.logger.info(`hud-ws: connected to ${this.url}`);
         this.reconnectDelay = 1000;
+        this.replay();
       });
 
       this.ws.addEventListener("close", (ev: CloseEvent) => {
@@ -57,9 +83,11 @@ export class HudWebSocket {
 
       this.ws.addEventListener("message", (ev: MessageEvent) => {
         try {
-          const msg = JSON.parse(typeof ev.data === "string" ? ev.data : String(ev.data)) as { type?: string };
+          const msg = JSON.parse(typeof ev.data === "string" ? ev.data : String(ev.data)) as HudRequest;
           if (msg.type === "ping") {
             this.ws?.send(JSON.stringify({ type: "pong" }));
+          } else if (msg.type === "hud_request") {
+            this.answerRequest(msg);
           }
         } catch { /* ignore non-JSON messages */ }
       });
@@ -76,22 +104,86 @@ export class HudWebSocket {
     }
   }
 
-  send(conversationId: string, data: HudData): void {
-    this.rawSend({ type: "hud_update", conversationId, data });
+  /** HUD update of a conversation; while disconnected it is dropped and the state replayed later. */
+  send(conversationId: string, data: HudData, agentName?: string): void {
+    this.rawSend({ type: "hud_update", conversationId, agentName, data });
   }
 
-  sendTask(agentName: string, data: TaskData): void {
-    const msg = { type: "task_update", agentName, data };
+  /** Task of an agent, in one of its conversations when known (else queued like other events). */
+  sendTask(agentName: string, data: TaskData, conversationId?: string): void {
+    const msg = { type: "task_update", agentName, conversationId, data };
     this.logger.info(`hud-ws: task_update ${JSON.stringify(msg)}`);
-    this.rawSend(msg);
+    if (conversationId) this.rawSend(msg);
+    else this.deliver(msg);
+  }
+
+  /** Crash/stall of an agent's CLI and how the supervisor handled it. */
+  sendIncident(agentName: string, incident: Incident): void {
+    const msg = { type: "incident", agentName, data: incident };
+    this.logger.info(`hud-ws: incident ${JSON.stringify(msg)}`);
+    this.deliver(msg);
+  }
+
+  sendApproval(agentName: string, event: ApprovalEvent): void {
+    const msg = { type: "approval", agentName, data: event };
+    this.logger.info(`hud-ws: approval ${JSON.stringify(msg)}`);
+    this.deliver(msg);
+  }
+
+  /** Budget warning, a turn refused or stopped at a spending cap. */
+  sendBudget(agentName: string, event: BudgetEvent): void {
+    const msg = { type: "budget", agentName, data: event };
+    this.logger.info(`hud-ws: budget ${JSON.stringify(msg)}`);
+    this.deliver(msg);
+  }
+
+  /** Send an event now, or queue it until the socket is back. */
+  private deliver(msg: unknown): void {
+    if (this.rawSend(msg)) return;
+    this.outbox = [...this.outbox, msg].slice(-MAX_OUTBOX);
+  }
+
+  /** After a (re)connect: queued events first, then every conversation's latest state. */
+  private replay(): void {
+    const queued = this.outbox;
+    this.outbox = [];
+    for (const msg of queued) this.deliver(msg);
+
+    const snapshots = this.state.all().reverse();
+    for (const s of snapshots) {
+      if (Object.keys(s.hud).length > 0) {
+        this.rawSend({ type: "hud_update", conversationId: s.conversationId, agentName: s.agentName, data: s.hud });
+      }
+      if (s.task) {
+        this.rawSend({ type: "task_update", agentName: s.agentName, conversationId: s.conversationId, data: s.task });
+      }
+    }
+    if (queued.length > 0 || snapshots.length > 0) {
+      this.logger.info(`hud-ws: replayed ${queued.length} queued event(s) and ${snapshots.length} conversation state(s)`);
+    }
+  }
+
+  /** Current snapshot of one conversation, an agent's conversations, or all of them. */
+  private answerRequest(req: HudRequest): void {
+    const snapshots = req.conversationId
+      ? [this.state.get(req.conversationId) ?? { conversationId: req.conversationId, hud: {}, updatedAt: 0 }]
+      : req.agentName ? this.state.forAgent(req.agentName) : this.state.all();
+    this.rawSend({
+      type: "hud_snapshot",
+      ...(req.requestId !== undefined ? { requestId: req.requestId } : {}),
+      snapshots,
+    });
   }
 
-  private rawSend(msg: unknown): void {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+  /** Whether the message went out. */
+  private rawSend(msg: unknown): boolean {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return false;
     try {
       this.ws.send(JSON.stringify(msg));
+      return true;
     } catch (err) {
       this.logger.warn(`hud-ws: send failed — ${err instanceof Error ? err.message : String(err)}`);
+      return false;
     }
   }
 
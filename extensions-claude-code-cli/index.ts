@@ -6,11 +6,25 @@ import type {
 } from "openclaw/plugin-sdk";
 import { homedir } from "node:os";
 import path from "node:path";
-import { createBridgeServer } from "./bridge-server.js";
+import { createBridgeServer, type QueueConfig } from "./bridge-server.js";
 import { HudWebSocket } from "./hud-ws.js";
-import { SessionStore } from "./session-store.js";
+import { HudStateManager } from "./hud-state.js";
+import { SessionStore, type AgentPermissions, type PermissionsConfig } from "./session-store.js";
+import { BackendRegistry } from "./backend-registry.js";
+import { claudeBackend } from "./claude-process.js";
+import { codexBackend, type CodexMode } from "./codex-process.js";
+import { geminiBackend } from "./gemini-process.js";
+import { upstreamBackend, type UpstreamBackendConfig } from "./upstream-process.js";
+import { AccountPool, type CliAccount } from "./account-pool.js";
 import { CommandHandler } from "./command-handler.js";
 import { HudMonitor } from "./hud-monitor.js";
+import type { QueueOptions, QueuePolicy } from "./session-queue.js";
+import { hashApiKey, type ApiKeyEntry } from "./api-keys.js";
+import { DEFAULT_WATCHDOG, type WatchdogOptions } from "./process-supervisor.js";
+import type { AutoCompactConfig, AutoCompactPolicy } from "./auto-compact.js";
+import type { FallbackConfig, FallbackPolicy } from "./fallback.js";
+import type { BudgetConfig, BudgetLimits } from "./budget.js";
+import { DEFAULT_PRICES, type ModelPrice, type PriceTable } from "./pricing.js";
 
 const DEFAULT_PORT = 18810;
 const DEFAULT_CLAUDE_PATH = "claude";
@@ -18,6 +32,8 @@ const DEFAULT_CODEX_PATH = "codex";
 const DEFAULT_CWD = path.join(homedir(), ".openclaw", "workspace");
 const DEFAULT_MAX_SESSIONS = 5;
 const DEFAULT_IDLE_TIMEOUT_MS = 600_000; // 10 minutes
+const DEFAULT_QUEUE_POLICY: QueuePolicy = "queue";
+const DEFAULT_QUEUE_DEPTH = 3;
 
 const CONTEXT_WINDOW = 200_000;
 const MAX_TOKENS = 16_384;
@@ -76,6 +92,11 @@ function resolveCodexModels(api: OpenClawPluginApi): string[] {
   return DEFAULT_CODEX_MODELS;
 }
 
+function resolveCodexMode(api: OpenClawPluginApi): CodexMode {
+  const c = cfg(api);
+  return c?.codexMode === "app-server" ? "app-server" : "exec";
+}
+
 function resolveGeminiPath(api: OpenClawPluginApi): string {
   const c = cfg(api);
   if (c?.geminiPath && typeof c.geminiPath === "string") return c.geminiPath;
@@ -90,6 +111,55 @@ function resolveGeminiModels(api: OpenClawPluginApi): string[] {
   return DEFAULT_GEMINI_MODELS;
 }
 
+/** OpenAI-compatible HTTP backend; off unless both a URL and models are configured. */
+function resolveUpstream(api: OpenClawPluginApi): UpstreamBackendConfig | undefined {
+  const c = cfg(api);
+  const baseUrl = typeof c?.upstreamUrl === "string" && c.upstreamUrl ? c.upstreamUrl : process.env.UPSTREAM_URL;
+  const models = parseStringList(c?.upstreamModels) ?? [];
+  if (!baseUrl || models.length === 0) return undefined;
+  const apiKey = typeof c?.upstreamApiKey === "string" && c.upstreamApiKey ? c.upstreamApiKey : process.env.UPSTREAM_API_KEY;
+  return { baseUrl, apiKey, models };
+}
+
+/** Claude subscriptions to spread sessions across (`claudeAccounts`); empty = the default login only. */
+function resolveClaudeAccounts(api: OpenClawPluginApi): CliAccount[] {
+  const c = cfg(api);
+  if (!Array.isArray(c?.claudeAccounts)) return [];
+
+  const accounts: CliAccount[] = [];
+  for (const raw of c.claudeAccounts as unknown[]) {
+    const a = raw as Record<string, unknown> | undefined;
+    if (!a || typeof a.name !== "string" || !a.name || typeof a.configDir !== "string" || !a.configDir) continue;
+    accounts.push({ name: a.name, configDir: a.configDir.replace(/^~/, homedir()) });
+  }
+  return accounts;
+}
+
+function parsePrice(raw: unknown): ModelPrice | undefined {
+  const p = raw as Record<string, unknown> | undefined;
+  if (!p || typeof p !== "object") return undefined;
+  if (typeof p.input !== "number" || p.input < 0 || typeof p.output !== "number" || p.output < 0) return undefined;
+
+  const result: ModelPrice = { input: p.input, output: p.output };
+  if (typeof p.cachedInput === "number" && p.cachedInput >= 0) result.cachedInput = p.cachedInput;
+  if (typeof p.cacheWrite === "number" && p.cacheWrite >= 0) result.cacheWrite = p.cacheWrite;
+  if (typeof p.contextWindow === "number" && p.contextWindow > 0) result.contextWindow = p.contextWindow;
+  return result;
+}
+
+function resolvePrices(api: OpenClawPluginApi): PriceTable {
+  const c = cfg(api);
+  const prices: PriceTable = { ...DEFAULT_PRICES };
+  const raw = c?.prices as Record<string, unknown> | undefined;
+  if (raw && typeof raw === "object") {
+    for (const [model, value] of Object.entries(raw)) {
+      const price = parsePrice(value);
+      if (price) prices[model] = price;
+    }
+  }
+  return prices;
+}
+
 function resolveMcpConfigPath(api: OpenClawPluginApi): string | undefined {
   const c = cfg(api);
   if (c?.mcpConfigPath && typeof c.mcpConfigPath === "string") return c.mcpConfigPath;
@@ -119,6 +189,12 @@ function resolveMaxSessions(api: OpenClawPluginApi): number {
   return DEFAULT_MAX_SESSIONS;
 }
 
+/** Probe a login's rate limits when no session reported them for this long (`rateLimitProbeMs`, 0 = off). */
+function resolveRateLimitProbeMs(api: OpenClawPluginApi): number {
+  const v = cfg(api)?.rateLimitProbeMs;
+  return typeof v === "number" && v > 0 ? v : 0;
+}
+
 function resolveIdleTimeoutMs(api: OpenClawPluginApi): number {
   const c = cfg(api);
   const defaults = c?.defaults as Record<string, unknown> | undefined;
@@ -152,6 +228,217 @@ function resolveAgentCwdDefaults(api: OpenClawPluginApi): Record<string, string>
   return Object.keys(result).length > 0 ? result : undefined;
 }
 
+function parseQueueOptions(raw: unknown): Partial<QueueOptions> | undefined {
+  const q = raw as Record<string, unknown> | undefined;
+  if (!q || typeof q !== "object") return undefined;
+
+  const result: Partial<QueueOptions> = {};
+  if (q.policy === "queue" || q.policy === "reject" || q.policy === "merge" || q.policy === "inject") result.policy = q.policy;
+  if (typeof q.maxDepth === "number" && q.maxDepth >= 0) result.maxDepth = Math.floor(q.maxDepth);
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+function resolveQueueConfig(api: OpenClawPluginApi): QueueConfig {
+  const c = cfg(api);
+  const defaults = c?.defaults as Record<string, unknown> | undefined;
+  const base = parseQueueOptions(defaults?.queue);
+
+  const agentOverrides: Record<string, Partial<QueueOptions>> = {};
+  const agents = c?.agents as Record<string, unknown> | undefined;
+  if (agents && typeof agents === "object") {
+    for (const [name, value] of Object.entries(agents)) {
+      const q = parseQueueOptions((value as Record<string, unknown> | undefined)?.queue);
+      if (q) agentOverrides[name.toLowerCase()] = q;
+    }
+  }
+
+  return {
+    defaults: {
+      policy: base?.policy ?? DEFAULT_QUEUE_POLICY,
+      maxDepth: base?.maxDepth ?? DEFAULT_QUEUE_DEPTH,
+    },
+    agents: Object.keys(agentOverrides).length > 0 ? agentOverrides : undefined,
+  };
+}
+
+function resolveWatchdog(api: OpenClawPluginApi): WatchdogOptions {
+  const c = cfg(api);
+  const defaults = c?.defaults as Record<string, unknown> | undefined;
+  const w = defaults?.watchdog as Record<string, unknown> | undefined;
+  const positive = (v: unknown): v is number => typeof v === "number" && v > 0;
+  return {
+    stallTimeoutMs: positive(w?.stallTimeoutMs) ? w.stallTimeoutMs : DEFAULT_WATCHDOG.stallTimeoutMs,
+    maxRestarts: typeof w?.maxRestarts === "number" && w.maxRestarts >= 0 ? Math.floor(w.maxRestarts) : DEFAULT_WATCHDOG.maxRestarts,
+    restartWindowMs: positive(w?.restartWindowMs) ? w.restartWindowMs : DEFAULT_WATCHDOG.restartWindowMs,
+  };
+}
+
+function parseStringList(raw: unknown): string[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  return raw.filter((v): v is string => typeof v === "string");
+}
+
+const PERMISSION_MODES = new Set(["default", "acceptEdits", "plan", "bypassPermissions"]);
+const CODEX_SANDBOXES = new Set(["read-only", "workspace-write", "danger-full-access"]);
+const GEMINI_APPROVAL_MODES = new Set(["default", "auto_edit", "yolo"]);
+
+function parsePermissions(raw: unknown): AgentPermissions | undefined {
+  const p = raw as Record<string, unknown> | undefined;
+  if (!p || typeof p !== "object") return undefined;
+
+  const result: AgentPermissions = {};
+  if (typeof p.permissionMode === "string" && PERMISSION_MODES.has(p.permissionMode)) {
+    result.permissionMode = p.permissionMode as AgentPermissions["permissionMode"];
+  }
+  const allowed = parseStringList(p.allowedTools);
+  if (allowed) result.allowedTools = allowed;
+  const disallowed = parseStringList(p.disallowedTools);
+  if (disallowed) result.disallowedTools = disallowed;
+  if (typeof p.codexSandbox === "string" && CODEX_SANDBOXES.has(p.codexSandbox)) {
+    result.codexSandbox = p.codexSandbox as AgentPermissions["codexSandbox"];
+  }
+  if (typeof p.geminiApprovalMode === "string" && GEMINI_APPROVAL_MODES.has(p.geminiApprovalMode)) {
+    result.geminiApprovalMode = p.geminiApprovalMode as AgentPermissions["geminiApprovalMode"];
+  }
+  if (typeof p.approvals === "boolean") result.approvals = p.approvals;
+  if (typeof p.approvalTimeoutMs === "number" && p.approvalTimeoutMs > 0) result.approvalTimeoutMs = p.approvalTimeoutMs;
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+function resolvePermissions(api: OpenClawPluginApi): PermissionsConfig {
+  const c = cfg(api);
+  const defaults = c?.defaults as Record<string, unknown> | undefined;
+
+  const agentOverrides: Record<string, AgentPermissions> = {};
+  const agents = c?.agents as Record<string, unknown> | undefined;
+  if (agents && typeof agents === "object") {
+    for (const [name, value] of Object.entries(agents)) {
+      const p = parsePermissions((value as Record<string, unknown> | undefined)?.permissions);
+      if (p) agentOverrides[name.toLowerCase()] = p;
+    }
+  }
+
+  return {
+    defaults: parsePermissions(defaults?.permissions),
+    agents: Object.keys(agentOverrides).length > 0 ? agentOverrides : undefined,
+  };
+}
+
+function parseAutoCompact(raw: unknown): AutoCompactPolicy | undefined {
+  const a = raw as Record<string, unknown> | undefined;
+  if (!a || typeof a !== "object") return undefined;
+
+  const result: AutoCompactPolicy = {};
+  if (typeof a.threshold === "number" && a.threshold > 0 && a.threshold <= 1) result.threshold = a.threshold;
+  if (typeof a.instructions === "string" && a.instructions.trim()) result.instructions = a.instructions.trim();
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+function resolveAutoCompact(api: OpenClawPluginApi): AutoCompactConfig {
+  const c = cfg(api);
+  const defaults = c?.defaults as Record<string, unknown> | undefined;
+
+  const agentOverrides: Record<string, AutoCompactPolicy> = {};
+  const agents = c?.agents as Record<string, unknown> | undefined;
+  if (agents && typeof agents === "object") {
+    for (const [name, value] of Object.entries(agents)) {
+      const a = parseAutoCompact((value as Record<string, unknown> | undefined)?.autoCompact);
+      if (a) agentOverrides[name.toLowerCase()] = a;
+    }
+  }
+
+  return {
+    defaults: parseAutoCompact(defaults?.autoCompact),
+    agents: Object.keys(agentOverrides).length > 0 ? agentOverrides : undefined,
+  };
+}
+
+function parseFallback(raw: unknown): FallbackPolicy | undefined {
+  const f = raw as Record<string, unknown> | undefined;
+  if (!f || typeof f !== "object") return undefined;
+
+  const positive = (v: unknown): v is number => typeof v === "number" && v > 0;
+  const result: FallbackPolicy = {};
+  const models = parseStringList(f.models);
+  if (models) result.models = models;
+  if (positive(f.maxFailures)) result.maxFailures = Math.floor(f.maxFailures);
+  if (positive(f.cooldownMs)) result.cooldownMs = f.cooldownMs;
+  if (typeof f.summaryTurns === "number" && f.summaryTurns >= 0) result.summaryTurns = Math.floor(f.summaryTurns);
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+function resolveFallback(api: OpenClawPluginApi): FallbackConfig {
+  const c = cfg(api);
+  const defaults = c?.defaults as Record<string, unknown> | undefined;
+
+  const agentOverrides: Record<string, FallbackPolicy> = {};
+  const agents = c?.agents as Record<string, unknown> | undefined;
+  if (agents && typeof agents === "object") {
+    for (const [name, value] of Object.entries(agents)) {
+      const f = parseFallback((value as Record<string, unknown> | undefined)?.fallback);
+      if (f) agentOverrides[name.toLowerCase()] = f;
+    }
+  }
+
+  return {
+    defaults: parseFallback(defaults?.fallback),
+    agents: Object.keys(agentOverrides).length > 0 ? agentOverrides : undefined,
+  };
+}
+
+function parseBudget(raw: unknown): BudgetLimits | undefined {
+  const b = raw as Record<string, unknown> | undefined;
+  if (!b || typeof b !== "object") return undefined;
+
+  const usd = (v: unknown): v is number => typeof v === "number" && v >= 0;
+  const result: BudgetLimits = {};
+  if (usd(b.perTurnUsd)) result.perTurnUsd = b.perTurnUsd;
+  if (usd(b.perDayUsd)) result.perDayUsd = b.perDayUsd;
+  if (usd(b.perMonthUsd)) result.perMonthUsd = b.perMonthUsd;
+  if (Array.isArray(b.warnAt)) {
+    result.warnAt = b.warnAt.filter((t): t is number => typeof t === "number" && t > 0 && t < 1);
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+function resolveBudgets(api: OpenClawPluginApi): BudgetConfig {
+  const c = cfg(api);
+  const defaults = c?.defaults as Record<string, unknown> | undefined;
+
+  const agentOverrides: Record<string, BudgetLimits> = {};
+  const agents = c?.agents as Record<string, unknown> | undefined;
+  if (agents && typeof agents === "object") {
+    for (const [name, value] of Object.entries(agents)) {
+      const b = parseBudget((value as Record<string, unknown> | undefined)?.budget);
+      if (b) agentOverrides[name.toLowerCase()] = b;
+    }
+  }
+
+  return {
+    global: parseBudget(c?.globalBudget),
+    defaults: parseBudget(defaults?.budget),
+    agents: Object.keys(agentOverrides).length > 0 ? agentOverrides : undefined,
+  };
+}
+
+function resolveApiKeys(api: OpenClawPluginApi): ApiKeyEntry[] {
+  const c = cfg(api);
+  if (!Array.isArray(c?.apiKeys)) return [];
+
+  const keys: ApiKeyEntry[] = [];
+  for (const raw of c.apiKeys as unknown[]) {
+    const k = raw as Record<string, unknown> | undefined;
+    if (!k || typeof k.name !== "string" || typeof k.hash !== "string") continue;
+    keys.push({
+      name: k.name,
+      hash: k.hash,
+      agents: parseStringList(k.agents),
+      models: parseStringList(k.models),
+    });
+  }
+  return keys;
+}
+
 /**
  * Read agents.defaults.model.primary from OpenClaw config.
  * If it's our provider (claude-code-cli/xxx), extract the model ID.
@@ -204,7 +491,13 @@ const plugin = {
               },
             });
 
+            const keyInput = await ctx.prompter.text({
+              message: "Bridge API key (leave empty if the bridge has no apiKeys configured)",
+              initialValue: "",
+            });
+
             const port = Number.parseInt(portInput, 10);
+            const apiKey = keyInput.trim();
             const baseUrl = `http://127.0.0.1:${port}/v1`;
             const modelId = "claude-code-cli";
             const modelRef = `claude-code-cli/${modelId}`;
@@ -216,7 +509,7 @@ const plugin = {
                   credential: {
                     type: "token",
                     provider: "claude-code-cli",
-                    token: "local",
+                    token: apiKey || "local",
                   },
                 },
               ],
@@ -225,9 +518,9 @@ const plugin = {
                   providers: {
                     "claude-code-cli": {
                       baseUrl,
-                      apiKey: "local",
+                      apiKey: apiKey || "local",
                       api: "openai-completions",
-                      authHeader: false,
+                      authHeader: !!apiKey,
                       models: [
                         {
                           id: modelId,
@@ -256,6 +549,9 @@ const plugin = {
                 "Ensure `claude` CLI is installed and logged in (`claude --version`).",
                 "The bridge server starts automatically with the gateway.",
                 `Bridge listens on http://127.0.0.1:${port}/v1.`,
+                ...(apiKey
+                  ? [`Add { "name": "openclaw", "hash": "${hashApiKey(apiKey)}" } to the plugin's apiKeys config.`]
+                  : []),
               ],
             };
           },
@@ -271,33 +567,93 @@ const plugin = {
         const claudePath = resolveClaudePath(api);
         const codexPath = resolveCodexPath(api);
         const codexModelList = resolveCodexModels(api);
+        const codexMode = resolveCodexMode(api);
         const geminiPath = resolveGeminiPath(api);
         const geminiModelList = resolveGeminiModels(api);
         const mcpConfigPath = resolveMcpConfigPath(api);
+        const upstream = resolveUpstream(api);
         const systemPrompt = resolveSystemPrompt(api);
         const defaultCwd = resolveDefaultCwd(api);
         const defaultModel = resolveDefaultModel(api);
         const maxSessions = resolveMaxSessions(api);
         const idleTimeoutMs = resolveIdleTimeoutMs(api);
+        const queue = resolveQueueConfig(api);
+        const apiKeys = resolveApiKeys(api);
+        const watchdog = resolveWatchdog(api);
+        const permissions = resolvePermissions(api);
+        const autoCompact = resolveAutoCompact(api);
+        const fallback = resolveFallback(api);
+        const budgets = resolveBudgets(api);
+        const prices = resolvePrices(api);
 
         ctx.logger.info(`bridge: idleTimeoutMs=${idleTimeoutMs} maxSessions=${maxSessions} defaultCwd=${defaultCwd}`);
+        ctx.logger.info(`bridge: queue policy=${queue.defaults.policy} maxDepth=${queue.defaults.maxDepth}`);
+        if (permissions.agents) {
+          ctx.logger.info(`bridge: per-agent permissions for ${Object.keys(permissions.agents).join(", ")}`);
+        }
+        if (autoCompact.defaults?.threshold || autoCompact.agents) {
+          ctx.logger.info(`bridge: autoCompact threshold=${autoCompact.defaults?.threshold ?? "off"} agents=${Object.keys(autoCompact.agents ?? {}).join(",") || "-"}`);
+        }
+        if (fallback.defaults?.models || fallback.agents) {
+          ctx.logger.info(`bridge: fallback chain=${fallback.defaults?.models?.join(" → ") ?? "-"} agents=${Object.keys(fallback.agents ?? {}).join(",") || "-"}`);
+        }
+        if (budgets.global || budgets.defaults || budgets.agents) {
+          const caps = (b: BudgetLimits | undefined) => b ? `turn=${b.perTurnUsd ?? "-"} day=${b.perDayUsd ?? "-"} month=${b.perMonthUsd ?? "-"}` : "-";
+          ctx.logger.info(`bridge: budgets global(${caps(budgets.global)}) defaults(${caps(budgets.defaults)}) agents=${Object.keys(budgets.agents ?? {}).join(",") || "-"}`);
+        }
+        ctx.logger.info(`bridge: watchdog stallTimeoutMs=${watchdog.stallTimeoutMs} maxRestarts=${watchdog.maxRestarts}/${watchdog.restartWindowMs}ms`);
+        if (apiKeys.length > 0) {
+          ctx.logger.info(`bridge: API key auth enabled (${apiKeys.map((k) => k.name).join(", ")})`);
+        } else {
+          ctx.logger.warn("bridge: no apiKeys configured — any local process can use the bridge");
+        }
         if (defaultModel) {
           ctx.logger.info(`bridge: default model from config: ${defaultModel}`);
         }
 
+        // CLI backends, in routing priority; Claude serves every model the others do not claim
+        const claudeAccounts = resolveClaudeAccounts(api);
+        const accountPool = claudeAccounts.length > 0 ? new AccountPool(claudeAccounts, ctx.logger) : undefined;
+        if (accountPool) {
+          ctx.logger.info(`bridge: Claude accounts ${claudeAccounts.map((a) => `${a.name}=${a.configDir}`).join(", ")}`);
+        }
+
+        // HUD rate limits, fed by the rate-limit events of every Claude session
+        const monitor = new HudMonitor({
+          claudePath,
+          probeAfterMs: resolveRateLimitProbeMs(api),
+          accounts: claudeAccounts,
+          logger: ctx.logger,
+        });
+        hudMonitor = monitor;
+        monitor.start();
+
+        const backends = new BackendRegistry(claudeBackend({
+          claudePath,
+          mcpConfigPath,
+          accounts: accountPool,
+          onRateLimit: (account, rl) => monitor.record(account, rl),
+        }));
+        backends.register(codexBackend({ codexPath, models: codexModelList, mode: codexMode }));
+        backends.register(geminiBackend({ geminiPath, models: geminiModelList }));
+        if (upstream) {
+          backends.register(upstreamBackend(upstream));
+          ctx.logger.info(`bridge: upstream ${upstream.baseUrl} models=${upstream.models.join(",")}`);
+        }
+
         // Create shared SessionStore and CommandHandler
         sharedSessionStore = new SessionStore(
           {
-            claudePath,
-            codexPath,
-            codexModels: new Set(codexModelList),
-            geminiPath,
-            geminiModels: new Set(geminiModelList),
-            mcpConfigPath,
+            backends,
             systemPrompt,
             defaultCwd,
             maxSessions,
             idleTimeoutMs,
+            watchdog,
+            permissions,
+            autoCompact,
+            budgets,
+            prices,
           },
           ctx.logger,
           ctx.stateDir,
@@ -306,17 +662,11 @@ const plugin = {
         const commandHandler = new CommandHandler(sharedSessionStore, { defaultCwd, defaultModel, agentCwdDefaults });
 
         // Build model list for /v1/models endpoint
-        const models = [
-          { id: "claude-code-cli", owned_by: "anthropic" },
-          ...codexModelList.map((m) => ({ id: m, owned_by: "openai" })),
-          ...geminiModelList.map((m) => ({ id: m, owned_by: "google" })),
-        ];
-
-        // Start HUD monitor for statusLine-based rate limit tracking
-        hudMonitor = new HudMonitor({ claudePath, logger: ctx.logger });
-        hudMonitor.start();
+        const models = backends.list().flatMap((b) => b.models().map((id) => ({ id, owned_by: b.vendor })));
 
-        // Start HUD WebSocket for pushing context/rate-limit data to arinova-chat
+        // Start HUD WebSocket for pushing context/rate-limit data to arinova-chat;
+        // it shares the bridge's HUD state, which the event stream replays too
+        const hudState = new HudStateManager();
         const channels = api.config?.channels as Record<string, Record<string, unknown>> | undefined;
         const arinovaChannel = channels?.["openclaw-arinova-ai"];
         if (arinovaChannel) {
@@ -327,14 +677,14 @@ const plugin = {
             ? Object.values(accounts).find((a) => a.enabled && a.botToken)?.botToken
             : undefined;
           if (firstToken) {
-            hudWs = new HudWebSocket(wsUrl, firstToken, ctx.logger);
+            hudWs = new HudWebSocket(wsUrl, firstToken, hudState, ctx.logger);
             hudWs.connect();
           } else {
             ctx.logger.warn("hud-ws: no enabled account with botToken found, skipping");
           }
         }
 
-        // Start HTTP bridge (passes hudMonitor so turns trigger rate limit refresh)
+        // Start HTTP bridge (passes hudMonitor for the rate limits in HUD pushes)
         bridge = createBridgeServer({
           port,
           sessionStore: sharedSessionStore,
@@ -343,6 +693,10 @@ const plugin = {
           models,
           hudMonitor,
           hudWs: hudWs ?? undefined,
+          hudState,
+          queue,
+          fallback,
+          apiKeys,
         });
         await bridge.start();
       },
@@ -0,0 +1,189 @@
+import type { RateLimitInfo, SendMessageResult } from "./claude-process.js";
+
+export const METRICS_PATH = "/metrics";
+
+type Labels = Record<string, string>;
+
+/** Seconds; turns range from a quick reply to hour-long agent runs. */
+const DURATION_BUCKETS = [1, 5, 10, 30, 60, 120, 300, 600, 1800, 3600];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function labelKey(labels: Labels): string {
+  const parts = Object.keys(labels).sort().map((k) => `${k}="${escapeLabel(labels[k])}"`);
+  return parts.length > 0 ? `{${parts.join(",")}}` : "";
+}
+
+/** Splice an extra label (histogram `le`) into a rendered label set. */
+function withLabel(key: string, name: string, value: string): string {
+  const pair = `${name}="${value}"`;
+  return key ? `${key.slice(0, -1)},${pair}}` : `{${pair}}`;
+}
+
+/** A counter or gauge: one value per label set. */
+class Metric {
+  private values = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: "counter" | "gauge",
+  ) {}
+
+  inc(labels: Labels = {}, by = 1): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + by);
+  }
+
+  set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), value);
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const [key, value] of this.values) lines.push(`${this.name}${key} ${value}`);
+    return lines;
+  }
+}
+
+class Histogram {
+  private series = new Map<string, { counts: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private buckets: number[],
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let s = this.series.get(key);
+    if (!s) {
+      s = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, s);
+    }
+    this.buckets.forEach((le, i) => {
+      if (value <= le) s!.counts[i]++;
+    });
+    s.sum += value;
+    s.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const [key, s] of this.series) {
+      this.buckets.forEach((le, i) => lines.push(`${this.name}_bucket${withLabel(key, "le", String(le))} ${s.counts[i]}`));
+      lines.push(`${this.name}_bucket${withLabel(key, "le", "+Inf")} ${s.count}`);
+      lines.push(`${this.name}_sum${key} ${s.sum}`);
+      lines.push(`${this.name}_count${key} ${s.count}`);
+    }
+    return lines;
+  }
+}
+
+/** Labels identifying who ran a turn and where. */
+export type TurnLabels = { agent: string; model: string; backend: string };
+
+/**
+ * In-process Prometheus metrics for the bridge, rendered in the text
+ * exposition format on `GET /metrics`. Turn metrics are fed from the
+ * `SendMessageResult` each backend returns; session gauges are sampled
+ * at scrape time.
+ */
+export class BridgeMetrics {
+  private requests = new Metric("bridge_requests_total", "Turns started, by agent, model and backend.", "counter");
+  private turnErrors = new Metric("bridge_turn_errors_total", "Requests that failed with an error.", "counter");
+  private turnDuration = new Histogram("bridge_turn_duration_seconds", "Wall-clock duration of completed turns.", DURATION_BUCKETS);
+  private tokens = new Metric("bridge_tokens_total", "Tokens used by completed turns, by type (input, output, cache_read, cache_creation).", "counter");
+  private cost = new Metric("bridge_cost_usd_total", "Cost of completed turns in USD, as reported by Claude or priced from the model price table.", "counter");
+  private tools = new Metric("bridge_tool_invocations_total", "Tool calls made by agents, by tool name.", "counter");
+  private busyRejections = new Metric("bridge_busy_rejections_total", "Requests rejected because the agent was busy or its queue was full.", "counter");
+  private crashes = new Metric("bridge_process_crashes_total", "CLI processes that died or hung outside a deliberate stop.", "counter");
+  private restarts = new Metric("bridge_process_restarts_total", "CLI processes recreated by the bridge, by reason.", "counter");
+  private liveSessions = new Metric("bridge_sessions_live", "Running CLI sessions.", "gauge");
+  private maxSessions = new Metric("bridge_sessions_max", "Configured maxSessions.", "gauge");
+  private rateLimit = new Metric("bridge_rate_limit_utilization", "Last reported rate-limit utilization (0-1), by backend, account and window.", "gauge");
+  private rateLimitResets = new Metric("bridge_rate_limit_resets_at_seconds", "Unix time the rate-limit window resets, by backend, account and window.", "gauge");
+  private fallbacks = new Metric("bridge_fallbacks_total", "Turns moved to another model of the agent's fallback chain, by model moved from and to.", "counter");
+
+  recordRequest(labels: TurnLabels): void {
+    this.requests.inc(labels);
+  }
+
+  recordTurnError(agent: string): void {
+    this.turnErrors.inc({ agent });
+  }
+
+  /**
+   * `rateLimits` are all windows the backend last reported, keyed by window;
+   * `account` is the login of the backend's pool they belong to, if any.
+   */
+  recordTurn(
+    labels: TurnLabels,
+    out: SendMessageResult,
+    elapsedMs: number,
+    rateLimits?: Map<string, RateLimitInfo>,
+    account?: string,
+  ): void {
+    this.turnDuration.observe({ agent: labels.agent, backend: labels.backend }, (out.durationMs ?? elapsedMs) / 1000);
+
+    if (out.usage) {
+      const counts: Record<string, number | undefined> = {
+        input: out.usage.input_tokens,
+        output: out.usage.output_tokens,
+        cache_read: out.usage.cache_read_input_tokens,
+        cache_creation: out.usage.cache_creation_input_tokens,
+      };
+      for (const [type, n] of Object.entries(counts)) {
+        if (n) this.tokens.inc({ ...labels, type }, n);
+      }
+    }
+    if (out.costUsd) this.cost.inc(labels, out.costUsd);
+
+    for (const tool of out.toolsUsed ?? []) {
+      this.tools.inc({ agent: labels.agent, tool: tool.name });
+    }
+
+    for (const [window, rl] of rateLimits ?? []) {
+      const limitLabels = { backend: labels.backend, account: account ?? "", window };
+      if (rl.utilization !== undefined) this.rateLimit.set(limitLabels, rl.utilization);
+      if (rl.resetsAt) this.rateLimitResets.set(limitLabels, rl.resetsAt);
+    }
+  }
+
+  recordBusyRejection(agent: string, reason: "busy" | "full"): void {
+    this.busyRejections.inc({ agent, reason });
+  }
+
+  recordCrash(backend: string): void {
+    this.crashes.inc({ backend });
+  }
+
+  recordRestart(backend: string, reason: "crashed" | "stalled" | "turn_failed" | "tools_changed" | "system_changed" | "backend_changed" | "fallback"): void {
+    this.restarts.inc({ backend, reason });
+  }
+
+  recordFallback(agent: string, from: string, to: string): void {
+    this.fallbacks.inc({ agent, from, to });
+  }
+
+  render(capacity: { live: number; max: number }): string {
+    this.liveSessions.reset();
+    this.liveSessions.set({}, capacity.live);
+    this.maxSessions.reset();
+    this.maxSessions.set({}, capacity.max);
+
+    const metrics = [
+      this.requests, this.turnErrors, this.turnDuration, this.tokens, this.cost, this.tools,
+      this.busyRejections, this.crashes, this.restarts, this.liveSessions, this.maxSessions,
+      this.rateLimit, this.rateLimitResets, this.fallbacks,
+    ];
+    return metrics.flatMap((m) => m.render()).join("\n") + "\n";
+  }
+}
@@ -0,0 +1,69 @@
+import type { TurnUsage } from "./claude-process.js";
+
+/**
+ * List price of a model in USD per million tokens. Claude reports its own
+ * cost; Codex and Gemini turns are priced from this table. Claude entries
+ * only estimate a running turn's cost for the budget caps.
+ */
+export type ModelPrice = {
+  input: number;
+  output: number;
+  /** Cached input tokens (default: the input price). */
+  cachedInput?: number;
+  /** Input tokens written to the prompt cache (default: the input price). */
+  cacheWrite?: number;
+  /** Context window in tokens, for context usage in /status and the HUD. */
+  contextWindow?: number;
+};
+
+/** Keyed by model ID; a key also matches longer IDs it prefixes (e.g. "gpt-5" → "gpt-5-2025-08-07"). */
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICES: PriceTable = {
+  "claude-opus-4-6": { input: 5, output: 25, cachedInput: 0.5, cacheWrite: 6.25 },
+  "claude-opus-4-5": { input: 5, output: 25, cachedInput: 0.5, cacheWrite: 6.25 },
+  // Opus 4 and 4.1 kept the Claude 3 Opus rate; plain "claude-opus-4" covers later 4.x releases
+  "claude-opus-4-1": { input: 15, output: 75, cachedInput: 1.5, cacheWrite: 18.75 },
+  "claude-opus-4-0": { input: 15, output: 75, cachedInput: 1.5, cacheWrite: 18.75 },
+  "claude-opus-4-20250514": { input: 15, output: 75, cachedInput: 1.5, cacheWrite: 18.75 },
+  "claude-opus-4": { input: 5, output: 25, cachedInput: 0.5, cacheWrite: 6.25 },
+  "claude-sonnet-4-6": { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
+  "claude-sonnet-4-5": { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
+  "claude-sonnet-4": { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
+  "claude-haiku-4-5": { input: 1, output: 5, cachedInput: 0.1, cacheWrite: 1.25 },
+  "claude-haiku-4": { input: 1, output: 5, cachedInput: 0.1, cacheWrite: 1.25 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cachedInput: 0.08, cacheWrite: 1 },
+  opus: { input: 5, output: 25, cachedInput: 0.5, cacheWrite: 6.25 },
+  sonnet: { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
+  haiku: { input: 1, output: 5, cachedInput: 0.1, cacheWrite: 1.25 },
+  "gpt-5": { input: 1.25, output: 10, cachedInput: 0.125, contextWindow: 400_000 },
+  "gpt-5-mini": { input: 0.25, output: 2, cachedInput: 0.025, contextWindow: 400_000 },
+  "gpt-5-nano": { input: 0.05, output: 0.4, cachedInput: 0.005, contextWindow: 400_000 },
+  "gpt-5-codex": { input: 1.25, output: 10, cachedInput: 0.125, contextWindow: 400_000 },
+  "o4-mini": { input: 1.1, output: 4.4, cachedInput: 0.275, contextWindow: 200_000 },
+  "gemini-2.5-pro": { input: 1.25, output: 10, cachedInput: 0.31, contextWindow: 1_048_576 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5, cachedInput: 0.075, contextWindow: 1_048_576 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4, cachedInput: 0.025, contextWindow: 1_048_576 },
+};
+
+/** Price of a model: exact ID first, then the longest key the ID starts with. */
+export function priceFor(table: PriceTable, model: string | undefined): ModelPrice | undefined {
+  if (!model) return undefined;
+  if (table[model]) return table[model];
+  const prefix = Object.keys(table)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : undefined;
+}
+
+/** Cost of a turn in USD (`input_tokens` excludes the cached ones, as in Anthropic usage). */
+export function computeCost(usage: TurnUsage, price: ModelPrice): number {
+  const cached = usage.cache_read_input_tokens ?? 0;
+  const written = usage.cache_creation_input_tokens ?? 0;
+  return (
+    usage.input_tokens * price.input
+    + cached * (price.cachedInput ?? price.input)
+    + written * (price.cacheWrite ?? price.input)
+    + usage.output_tokens * price.output
+  ) / 1_000_000;
+}
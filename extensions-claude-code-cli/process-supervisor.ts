@@ -0,0 +1,188 @@
+import { setTimeout as sleep } from "node:timers/promises";
+import type { ProcessExit } from "./claude-process.js";
+import type { CliProcess } from "./backend-registry.js";
+
+type Logger = {
+  info: (msg: string) => void;
+  warn: (msg: string) => void;
+  error: (msg: string) => void;
+};
+
+export type WatchdogOptions = {
+  /** Silence on stdout during a turn after which the CLI counts as hung. */
+  stallTimeoutMs: number;
+  /** Restarts allowed within `restartWindowMs` before the crash-loop breaker trips. */
+  maxRestarts: number;
+  restartWindowMs: number;
+};
+
+export const DEFAULT_WATCHDOG: WatchdogOptions = {
+  stallTimeoutMs: 10 * 60 * 1000,
+  maxRestarts: 3,
+  restartWindowMs: 10 * 60 * 1000,
+};
+
+/** A process the supervisor can watch for stalls and restart in place. */
+export type SupervisedProcess = CliProcess & { getSilentMs(): number };
+
+export function isSupervisable(proc: CliProcess): proc is SupervisedProcess {
+  return typeof proc.getSilentMs === "function";
+}
+
+/** A crash or stall the supervisor handled, reported to the chat and HUD. */
+export type Incident = {
+  kind: "crashed" | "stalled";
+  /** recovered = restarted on the same session; failed = restart did not stay up; gave_up = breaker tripped. */
+  outcome: "recovered" | "failed" | "gave_up";
+  /** e.g. "exit code 1", "no output for 10 min" */
+  detail: string;
+  midTurn: boolean;
+  /** Session the restart resumed. */
+  sessionId?: string;
+  /** Restarts within the current window, including this one. */
+  restarts: number;
+  at: number;
+};
+
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30_000;
+/** How long a restarted CLI has to stay up to count as recovered. */
+const RECOVERY_GRACE_MS = 2000;
+const STALL_CHECK_INTERVAL_MS = 15_000;
+
+function formatDuration(ms: number): string {
+  return ms < 60_000 ? `${Math.round(ms / 1000)}s` : `${Math.round(ms / 60_000)} min`;
+}
+
+/** One-line chat notice for an incident. */
+export function formatIncident(incident: Incident, opts: WatchdogOptions = DEFAULT_WATCHDOG): string {
+  const what = `Claude CLI ${incident.kind} (${incident.detail})`;
+  switch (incident.outcome) {
+    case "recovered":
+      return incident.sessionId
+        ? `⚠️ ${what} and was restarted; session ${incident.sessionId.slice(0, 12)} resumed.`
+        : `⚠️ ${what} and was restarted.`;
+    case "failed":
+      return `⚠️ ${what} and could not be restarted; the next message starts a new process.`;
+    case "gave_up":
+      return `⚠️ ${what}: ${incident.restarts} restarts within ${formatDuration(opts.restartWindowMs)}, automatic restarts paused.`;
+  }
+}
+
+/**
+ * Keeps a persistent CLI process (see isSupervisable) alive: restarts it on its session
+ * after an unexpected exit or a mid-turn stall, backing off exponentially,
+ * and stops retrying once the crash-loop breaker trips.
+ */
+export class ProcessSupervisor {
+  private process: SupervisedProcess;
+  private opts: WatchdogOptions;
+  private logger: Logger;
+  private tag: string;
+  private onIncident: (incident: Incident) => void;
+  private awaitingClient: () => boolean;
+  /** Last stall check that found the turn waiting on the user or the client; silence counts from there. */
+  private waitSeenAt = 0;
+  /** Restart timestamps, shared by all processes of a conversation so the breaker survives recreation. */
+  private restartTimes: number[];
+  private recovery: Promise<boolean> | null = null;
+  private stallTimer: ReturnType<typeof setInterval>;
+  private disposed = false;
+
+  constructor(
+    proc: SupervisedProcess,
+    opts: WatchdogOptions,
+    logger: Logger,
+    label: string,
+    restartTimes: number[],
+    onIncident: (incident: Incident) => void,
+    awaitingClient: () => boolean = () => false,
+  ) {
+    this.process = proc;
+    this.opts = opts;
+    this.logger = logger;
+    this.tag = `supervisor[${label}]`;
+    this.restartTimes = restartTimes;
+    this.onIncident = onIncident;
+    this.awaitingClient = awaitingClient;
+    this.stallTimer = setInterval(() => this.checkStall(), Math.min(STALL_CHECK_INTERVAL_MS, opts.stallTimeoutMs));
+    this.stallTimer.unref();
+  }
+
+  /** Called by the process for exits it did not initiate. */
+  handleExit(exit: ProcessExit): void {
+    const detail = exit.error ?? (exit.signal ? `signal ${exit.signal}` : `exit code ${exit.code}`);
+    this.recover("crashed", detail, exit.midTurn);
+  }
+
+  /** The restart in progress, if any; resolves to whether the session came back. */
+  pendingRecovery(): Promise<boolean> | null {
+    return this.recovery;
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    clearInterval(this.stallTimer);
+  }
+
+  private checkStall(): void {
+    if (this.recovery || !this.process.isBusy()) return;
+    // A permission prompt or client tool call is not the CLI hanging
+    if (this.process.isAwaitingPermission?.() || this.awaitingClient()) {
+      this.waitSeenAt = Date.now();
+      return;
+    }
+    const silentMs = Math.min(this.process.getSilentMs(), Date.now() - this.waitSeenAt);
+    if (silentMs < this.opts.stallTimeoutMs) return;
+    this.logger.warn(`${this.tag}: no output for ${Math.round(silentMs / 1000)}s mid-turn, treating as hung`);
+    this.recover("stalled", `no output for ${formatDuration(silentMs)}`, true);
+  }
+
+  private recover(kind: Incident["kind"], detail: string, midTurn: boolean): void {
+    if (this.disposed || this.recovery) return;
+
+    const now = Date.now();
+    const recent = this.restartTimes.filter((t) => now - t < this.opts.restartWindowMs);
+    this.restartTimes.splice(0, this.restartTimes.length, ...recent);
+    const sessionId = this.process.getSessionId() || undefined;
+    const report = (outcome: Incident["outcome"]) =>
+      this.onIncident({ kind, outcome, detail, midTurn, sessionId, restarts: this.restartTimes.length, at: now });
+
+    if (this.restartTimes.length >= this.opts.maxRestarts) {
+      this.logger.error(`${this.tag}: ${kind} (${detail}) after ${this.restartTimes.length} restarts, giving up`);
+      if (kind === "stalled") this.process.stop().catch(() => {});
+      report("gave_up");
+      return;
+    }
+
+    this.restartTimes.push(now);
+    const delayMs = Math.min(BACKOFF_BASE_MS * 2 ** (this.restartTimes.length - 1), BACKOFF_MAX_MS);
+    this.logger.warn(`${this.tag}: ${kind} (${detail}), restarting in ${delayMs}ms resume=${sessionId?.slice(0, 12) ?? "none"}`);
+
+    // Assigned before the failed turn's rejection handlers run; the bridge waits on it to retry
+    this.recovery = this.restart(kind, delayMs, sessionId)
+      .catch((err) => {
+        this.logger.error(`${this.tag}: restart failed: ${err instanceof Error ? err.message : String(err)}`);
+        return false;
+      })
+      .then((ok) => {
+        if (!this.disposed) report(ok ? "recovered" : "failed");
+        return ok;
+      })
+      .finally(() => {
+        this.recovery = null;
+      });
+  }
+
+  private async restart(kind: Incident["kind"], delayMs: number, sessionId: string | undefined): Promise<boolean> {
+    if (kind === "stalled") await this.process.stop();
+    await sleep(delayMs);
+    if (this.disposed) return false;
+
+    await this.process.restart(sessionId);
+    await sleep(RECOVERY_GRACE_MS);
+    if (this.disposed || !this.process.isAlive()) return false;
+    this.logger.info(`${this.tag}: recovered`);
+    return true;
+  }
+}
@@ -0,0 +1,31 @@
+import type { TurnUsage } from "./claude-process.js";
+
+/**
+ * Backend-neutral turn progress (tool activity, thinking, sub-agents).
+ *
+ * Each CLI wrapper maps its own event stream onto these; the bridge forwards
+ * them to clients that opt in. Inputs and outputs are short previews only.
+ */
+export type ProgressEvent =
+  | { type: "tool_start"; id: string; name: string; input?: string; parentToolId?: string }
+  | { type: "tool_end"; id: string; name: string; isError: boolean; output?: string; parentToolId?: string }
+  | { type: "thinking"; text: string; parentToolId?: string }
+  | { type: "subagent_start"; id: string; description: string; agentType?: string }
+  | { type: "subagent_end"; id: string; isError: boolean };
+
+/** Per-turn observers every backend's `sendMessage` accepts. */
+export type ProgressHooks = {
+  onProgress?: (event: ProgressEvent) => void;
+  /** Token usage of the turn so far, after each model call (backends that report it mid-turn). */
+  onUsage?: (usage: TurnUsage, model?: string) => void;
+};
+
+const PREVIEW_MAX_CHARS = 200;
+
+/** One-line, truncated rendering of a tool input or output. */
+export function preview(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const text = (typeof value === "string" ? value : JSON.stringify(value)).replace(/\s+/g, " ").trim();
+  if (!text) return undefined;
+  return text.length > PREVIEW_MAX_CHARS ? `${text.slice(0, PREVIEW_MAX_CHARS)}…` : text;
+}
@@ -0,0 +1,171 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { SessionStore, SessionSummary } from "./session-store.js";
+
+type Logger = {
+  info: (msg: string) => void;
+  warn: (msg: string) => void;
+  error: (msg: string) => void;
+};
+
+export const SESSIONS_PATH = "/v1/bridge/sessions";
+
+export type SessionAdminOptions = {
+  sessionStore: SessionStore;
+  logger: Logger;
+  /** Scope check for the caller's API key; returns an error message when the agent is off-limits. */
+  authorizeAgent: (agent: string) => string | null;
+  /** Run `fn` in the key's queue slot, after the turns already waiting. */
+  exclusive: <T>(key: string, fn: () => Promise<T>) => Promise<T>;
+};
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString()));
+    req.on("error", reject);
+  });
+}
+
+function jsonResponse(res: ServerResponse, status: number, body: unknown): void {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Content-Length": Buffer.byteLength(payload),
+  });
+  res.end(payload);
+}
+
+function adminError(res: ServerResponse, status: number, message: string, type = "invalid_request_error"): void {
+  jsonResponse(res, status, { error: { message, type, code: null } });
+}
+
+function toJson(s: SessionSummary): Record<string, unknown> {
+  const window = s.context?.contextWindow;
+  return {
+    key: s.conversationId,
+    sessionId: s.sessionId || null,
+    backend: s.backend,
+    cwd: s.cwd,
+    model: s.model ?? null,
+    alive: s.alive,
+    busy: s.busy,
+    lastActivity: s.lastActivity ? new Date(s.lastActivity).toISOString() : null,
+    costUsd: s.cost,
+    context: s.context
+      ? {
+          tokens: s.context.contextTokens,
+          window: window ?? null,
+          percent: window ? Math.round((s.context.contextTokens / window) * 100) : null,
+        }
+      : null,
+  };
+}
+
+/**
+ * Session admin REST API for ops tooling — the HTTP counterpart of the
+ * /sessions, /status, /stop and /resume chat commands.
+ *
+ *   GET    /v1/bridge/sessions              live sessions + resumable session IDs
+ *   GET    /v1/bridge/sessions/:key         one live session
+ *   DELETE /v1/bridge/sessions/:key         stop the CLI (?forget=true also drops the persisted ID)
+ *   POST   /v1/bridge/sessions/:key/abort   interrupt the in-flight turn, reporting its partial output
+ *   POST   /v1/bridge/sessions/:key/resume  restart on a session ID (body: { sessionId? })
+ */
+export async function handleSessionAdmin(
+  req: IncomingMessage,
+  res: ServerResponse,
+  opts: SessionAdminOptions,
+): Promise<void> {
+  const { sessionStore, logger, authorizeAgent, exclusive } = opts;
+  const url = new URL(req.url ?? "", "http://localhost");
+  const parts = url.pathname.slice(SESSIONS_PATH.length).split("/").filter(Boolean).map(decodeURIComponent);
+  const method = req.method ?? "GET";
+
+  if (parts.length === 0) {
+    if (method !== "GET") return adminError(res, 405, "Method not allowed");
+    const all = sessionStore.listSessions().filter((s) => !authorizeAgent(s.conversationId || s.owner || ""));
+    jsonResponse(res, 200, {
+      object: "list",
+      data: all.filter((s) => s.conversationId).map(toJson),
+      resumable: all
+        .filter((s) => !s.conversationId)
+        .map((s) => ({ sessionId: s.sessionId, backend: s.backend, cwd: s.cwd, model: s.model ?? null })),
+    });
+    return;
+  }
+
+  const [key, action] = parts;
+  if (parts.length > 2) return adminError(res, 404, `Not found: ${url.pathname}`);
+
+  const denied = authorizeAgent(key);
+  if (denied) return adminError(res, 403, denied, "permission_error");
+
+  if (!action) {
+    if (method === "GET") {
+      const summary = sessionStore.describeSession(key);
+      if (!summary) return adminError(res, 404, `No live session for ${key}`);
+      jsonResponse(res, 200, toJson(summary));
+      return;
+    }
+    if (method === "DELETE") {
+      // Abort the running turn so the slot frees up, then stop the CLI in it
+      if (sessionStore.getSession(key)?.process.isBusy()) await sessionStore.interruptTurn(key);
+      const forget = url.searchParams.get("forget") === "true";
+      const existed = await exclusive(key, async () => {
+        const live = !!sessionStore.getSession(key);
+        await sessionStore.destroySession(key);
+        if (forget) sessionStore.clearPersistedSession(key);
+        return live;
+      });
+      logger.info(`session-admin: deleted session ${key}${forget ? " (forgotten)" : ""}`);
+      jsonResponse(res, 200, { key, deleted: existed, forgotten: forget });
+      return;
+    }
+    return adminError(res, 405, "Method not allowed");
+  }
+
+  if (method !== "POST") return adminError(res, 405, "Method not allowed");
+
+  if (action === "abort") {
+    const entry = sessionStore.getSession(key);
+    if (!entry) return adminError(res, 404, `No live session for ${key}`);
+    const busy = entry.process.isBusy();
+    const partial = busy ? await sessionStore.interruptTurn(key) : null;
+    logger.info(`session-admin: abort ${key} (${busy ? "aborted turn" : "idle"})`);
+    jsonResponse(res, 200, {
+      key,
+      aborted: busy,
+      ...(partial ? { partial: { textLength: partial.text.length, usage: partial.usage, costUsd: partial.costUsd } } : {}),
+    });
+    return;
+  }
+
+  if (action === "resume") {
+    let body: { sessionId?: unknown } = {};
+    try {
+      const raw = await readBody(req);
+      if (raw.trim()) body = JSON.parse(raw) as typeof body;
+    } catch {
+      return adminError(res, 400, "Invalid JSON body");
+    }
+    // Accept a session ID prefix, like /resume, but only of sessions this key owns
+    const requested = typeof body.sessionId === "string" ? body.sessionId : undefined;
+    const target = requested
+      ? sessionStore.sessionIdsOf(key).find((id) => id.startsWith(requested))
+      : sessionStore.getLastSessionId(key);
+    if (!target) {
+      return adminError(res, 404, requested ? `No session ${requested} for ${key}` : `No session ID to resume for ${key}`);
+    }
+
+    // Queue behind any running turn rather than restarting the CLI under it
+    const entry = await exclusive(key, () => sessionStore.resumeSession(key, target));
+    if (!entry) return adminError(res, 404, `No session ID to resume for ${key}`);
+    logger.info(`session-admin: resumed ${key} on ${target.slice(0, 12)}`);
+    // The CLI reports its session ID with the first turn, so echo the one we resumed
+    jsonResponse(res, 200, { ...toJson(sessionStore.describeSession(key)!), resumedFrom: target });
+    return;
+  }
+
+  adminError(res, 404, `Not found: ${url.pathname}`);
+}
@@ -0,0 +1,188 @@
+import type { Attachment } from "./attachments.js";
+
+/**
+ * "inject" is applied by the bridge (messages go into a running Claude turn);
+ * here, and for backends that cannot take input mid-run, it behaves like "queue".
+ */
+export type QueuePolicy = "queue" | "reject" | "merge" | "inject";
+
+export type QueueOptions = {
+  /** What to do with a request that arrives while the session is busy. */
+  policy: QueuePolicy;
+  /** Max requests waiting behind the running turn (0 = never wait). */
+  maxDepth: number;
+};
+
+export type QueueTicket =
+  | {
+      status: "acquired";
+      /** Message text for the turn (several messages joined under the merge policy). */
+      text: string;
+      /** Attachments of every message folded into the turn. */
+      attachments: Attachment[];
+      /** Run the turn while holding the session slot. Must be called exactly once. */
+      run<T>(fn: () => Promise<T>): Promise<T>;
+    }
+  | { status: "rejected"; reason: "busy" | "full" }
+  | { status: "merged" }
+  | { status: "cancelled" };
+
+export type AcquireHooks = {
+  /** Called with the 1-based position whenever the waiting position changes. */
+  onPosition?: (position: number) => void;
+  /** Aborting removes the request from the queue (e.g. on client disconnect). */
+  signal?: AbortSignal;
+};
+
+/** A request's input as it travels through the queue. */
+export type QueuedMessage = {
+  text: string;
+  attachments: Attachment[];
+};
+
+type Waiter = {
+  /** Turn input; undefined for exclusive work (see `exclusive`), which merge never folds. */
+  message?: QueuedMessage;
+  hooks: AcquireHooks;
+  settle: (ticket: QueueTicket) => void;
+  detach: () => void;
+};
+
+type Lane = {
+  running: boolean;
+  waiting: Waiter[];
+};
+
+const NO_MESSAGE: QueuedMessage = { text: "", attachments: [] };
+
+/**
+ * Per-session FIFO queue. One turn runs at a time per session key; later
+ * requests wait in arrival order, are rejected, or are merged into a single
+ * follow-up turn depending on the policy. Exclusive work (compaction, ...)
+ * waits in the same line but is never merged, rejected or counted.
+ */
+export class SessionQueue {
+  private lanes = new Map<string, Lane>();
+
+  isBusy(key: string): boolean {
+    return this.lanes.get(key)?.running ?? false;
+  }
+
+  acquire(key: string, message: QueuedMessage, opts: QueueOptions, hooks: AcquireHooks = {}): Promise<QueueTicket> {
+    if (hooks.signal?.aborted) return Promise.resolve({ status: "cancelled" });
+
+    const lane = this.lane(key);
+
+    if (!lane.running) {
+      lane.running = true;
+      return Promise.resolve(this.grant(key, lane, message));
+    }
+
+    if (opts.policy === "reject") {
+      return Promise.resolve({ status: "rejected", reason: "busy" });
+    }
+
+    // Merge: fold the pending follow-up into this request so they run as one turn
+    let pending = message;
+    const last = lane.waiting.at(-1);
+    if (opts.policy === "merge" && last?.message) {
+      const prev = lane.waiting.pop()!;
+      prev.detach();
+      prev.settle({ status: "merged" });
+      pending = {
+        text: `${last.message.text}\n\n${message.text}`,
+        attachments: [...last.message.attachments, ...message.attachments],
+      };
+    }
+
+    if (lane.waiting.filter((w) => w.message).length >= opts.maxDepth) {
+      return Promise.resolve({ status: "rejected", reason: "full" });
+    }
+
+    const queued = lane;
+    return new Promise<QueueTicket>((resolve) => {
+      const onAbort = () => {
+        const idx = queued.waiting.indexOf(waiter);
+        if (idx === -1) return;
+        queued.waiting.splice(idx, 1);
+        resolve({ status: "cancelled" });
+        this.notifyPositions(queued, idx);
+      };
+      const waiter: Waiter = {
+        message: pending,
+        hooks,
+        settle: resolve,
+        detach: () => hooks.signal?.removeEventListener("abort", onAbort),
+      };
+      hooks.signal?.addEventListener("abort", onAbort, { once: true });
+      queued.waiting.push(waiter);
+      hooks.onPosition?.(queued.waiting.length);
+    });
+  }
+
+  /** Run `fn` holding the session slot, after the turns and work already in line. */
+  async exclusive<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const lane = this.lane(key);
+    if (!lane.running) {
+      lane.running = true;
+      return this.run(this.grant(key, lane, NO_MESSAGE), fn);
+    }
+    const ticket = await new Promise<QueueTicket>((resolve) => {
+      lane.waiting.push({ hooks: {}, settle: resolve, detach: () => {} });
+    });
+    return this.run(ticket, fn);
+  }
+
+  private lane(key: string): Lane {
+    let lane = this.lanes.get(key);
+    if (!lane) {
+      lane = { running: false, waiting: [] };
+      this.lanes.set(key, lane);
+    }
+    return lane;
+  }
+
+  private run<T>(ticket: QueueTicket, fn: () => Promise<T>): Promise<T> {
+    if (ticket.status !== "acquired") throw new Error(`Exclusive work was ${ticket.status}`);
+    return ticket.run(fn);
+  }
+
+  private grant(key: string, lane: Lane, message: QueuedMessage): QueueTicket {
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      this.advance(key, lane);
+    };
+    return {
+      status: "acquired",
+      text: message.text,
+      attachments: message.attachments,
+      run: async <T>(fn: () => Promise<T>): Promise<T> => {
+        try {
+          return await fn();
+        } finally {
+          release();
+        }
+      },
+    };
+  }
+
+  private advance(key: string, lane: Lane): void {
+    const next = lane.waiting.shift();
+    if (!next) {
+      lane.running = false;
+      if (this.lanes.get(key) === lane) this.lanes.delete(key);
+      return;
+    }
+    next.detach();
+    next.settle(this.grant(key, lane, next.message ?? NO_MESSAGE));
+    this.notifyPositions(lane, 0);
+  }
+
+  private notifyPositions(lane: Lane, fromIndex: number): void {
+    for (let i = fromIndex; i < lane.waiting.length; i++) {
+      lane.waiting[i].hooks.onPosition?.(i + 1);
+    }
+  }
+}
@@ -1,6 +1,21 @@
-import { ClaudeProcess, type ClaudeProcessOptions } from "./claude-process.js";
-import { CodexProcess, type CodexProcessOptions } from "./codex-process.js";
-import { GeminiProcess, type GeminiProcessOptions } from "./gemini-process.js";
+import type { ClaudePermissionMode, ContextUsage, SendMessageResult } from "./claude-process.js";
+import type { CodexSandbox } from "./codex-process.js";
+import type { GeminiApprovalMode } from "./gemini-process.js";
+import type { BackendRegistry, CliBackend, CliProcess, HistoryMessage, HistoryStore } from "./backend-registry.js";
+import { ApprovalManager } from "./approvals.js";
+import {
+  DEFAULT_WATCHDOG,
+  ProcessSupervisor,
+  isSupervisable,
+  type Incident,
+  type WatchdogOptions,
+} from "./process-supervisor.js";
+import type { Attachment } from "./attachments.js";
+import { isCompactionDue, type AutoCompactConfig, type AutoCompactPolicy, type CompactionRecord } from "./auto-compact.js";
+import type { PriceTable } from "./pricing.js";
+import type { AccountStatus, CliAccount } from "./account-pool.js";
+import { UsageLedger } from "./usage-ledger.js";
+import { BudgetGuard, type BudgetConfig } from "./budget.js";
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from "node:fs";
 import path from "node:path";
 
@@ -10,8 +25,8 @@ type Logger = {
   error: (msg: string) => void;
 };
 
-export type CliProcess = ClaudeProcess | CodexProcess | GeminiProcess;
-export type Backend = "claude" | "codex" | "gemini";
+/** ID of a registered CliBackend. */
+export type Backend = string;
 
 export interface SessionEntry {
   process: CliProcess;
@@ -20,84 +35,186 @@ export interface SessionEntry {
   cwd: string;
   model?: string;
   lastSessionId?: string;
+  /** Hash of the client tool set the process was started with (see ToolBridge). */
+  toolsHash?: string;
+  /** Client's own system prompt (Messages API `system`) the process was started with. */
+  systemPrompt?: string;
+  /** Crash/stall watchdog (Claude sessions only). */
+  supervisor?: ProcessSupervisor;
+  /** Account of the backend's pool the session is pinned to. */
+  account?: string;
 }
 
 export interface CreateSessionOpts {
   cwd?: string;
   model?: string;
   resumeSessionId?: string;
-  compact?: boolean;
+  /** MCP server for the client's tools (ignored by backends without `clientTools`). */
+  mcpServers?: Record<string, unknown>;
+  toolsHash?: string;
+  /** Client's system prompt, appended to the configured one. */
+  systemPrompt?: string;
+  /** Whether a client tool call is out; the stall watchdog waits meanwhile. */
+  awaitingClient?: () => boolean;
+}
+
+/** Safety posture of an agent's CLI sessions; unset fields keep the permissive defaults. */
+export interface AgentPermissions {
+  permissionMode?: ClaudePermissionMode;
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  codexSandbox?: CodexSandbox;
+  geminiApprovalMode?: GeminiApprovalMode;
+  /** Ask the chat user (/approve, /deny) instead of denying what the Claude permission mode does not allow. */
+  approvals?: boolean;
+  /** How long a permission prompt waits before it is denied (default: 5 min). */
+  approvalTimeoutMs?: number;
+}
+
+export interface PermissionsConfig {
+  defaults?: AgentPermissions;
+  /** Per-agent overrides (key = lowercase agent name), merged field by field over the defaults. */
+  agents?: Record<string, AgentPermissions>;
 }
 
 export interface SessionStoreConfig {
-  claudePath: string;
-  codexPath: string;
-  codexModels: Set<string>;
-  geminiPath: string;
-  geminiModels: Set<string>;
-  mcpConfigPath?: string;
+  backends: BackendRegistry;
   systemPrompt?: string;
   defaultCwd: string;
   maxSessions: number;
   idleTimeoutMs: number;
+  watchdog?: WatchdogOptions;
+  permissions?: PermissionsConfig;
+  autoCompact?: AutoCompactConfig;
+  budgets?: BudgetConfig;
+  /** Prices for Codex and Gemini turns; Claude reports its own cost. */
+  prices?: PriceTable;
+}
+
+export interface SessionSummary {
+  /** Session key (agent name); empty for sessions that only survive as resumable IDs. */
+  conversationId: string;
+  sessionId: string;
+  alive: boolean;
+  busy: boolean;
+  backend: Backend;
+  cwd: string;
+  model?: string;
+  lastActivity: number;
+  cost: number;
+  /** Context usage of the last turn. */
+  context?: ContextUsage;
+  lastCompaction?: CompactionRecord;
+  account?: string;
+  /** Session key a resumable ID belonged to. */
+  owner?: string;
 }
 
+/** A session started or ended, for local event subscribers. */
+export type SessionLifecycleEvent = {
+  type: "created" | "destroyed" | "evicted" | "idle_timeout";
+  /** Session key (agent name). */
+  conversationId: string;
+  backend: Backend;
+  model?: string;
+  sessionId?: string;
+  account?: string;
+};
+
+/** ID of a stopped session, kept so it can be resumed. */
+type DeadSession = {
+  sessionId: string;
+  cwd: string;
+  model?: string;
+  backend: Backend;
+  account?: string;
+  /** Session key (agent) the session belonged to. */
+  owner: string;
+};
+
 interface PersistedSession {
   sessionId: string;
   backend: Backend;
   model: string;
   cwd: string;
+  /** Pool account the session lives on; resumes must run under the same login. */
+  account?: string;
   updatedAt: string;
 }
 
 const PERSIST_DEBOUNCE_MS = 500;
+/** Stored histories of stateless backends; the least recently used are dropped first. */
+const MAX_HISTORIES = 50;
+
+/** Agent overrides win field by field; undefined fields fall back to the defaults. */
+function mergeAgentConfig<T extends object>(defaults: T | undefined, agent: T | undefined): T {
+  const merged = { ...defaults } as T;
+  for (const [key, value] of Object.entries(agent ?? {})) {
+    if (value !== undefined) (merged as Record<string, unknown>)[key] = value;
+  }
+  return merged;
+}
 
 /**
  * In-memory session store with idle eviction, model-based backend routing,
  * and disk persistence for session/thread IDs.
  */
 export class SessionStore {
+  /** Permission prompts from Claude sessions waiting on the chat user. */
+  readonly approvals: ApprovalManager;
+  /** Every completed turn, kept under the state dir for /cost reports and the usage export. */
+  readonly ledger: UsageLedger;
+  /** Spending caps, with this day's and month's spend from the ledger. */
+  readonly budget: BudgetGuard;
   private sessions = new Map<string, SessionEntry>();
   /** Mapping: conversationId (UUID) → agent name for /hud lookups. */
   private convToAgent = new Map<string, string>();
   /** Preserved session IDs from destroyed sessions (for /resume). */
-  private deadSessionIds = new Map<string, { sessionId: string; cwd: string; model?: string; backend: Backend }>();
+  private deadSessionIds = new Map<string, DeadSession>();
   private config: SessionStoreConfig;
   private logger: Logger;
   private idleTimer: ReturnType<typeof setInterval> | null = null;
+  /** Supervisor incidents not yet shown in the conversation. */
+  private incidents = new Map<string, Incident[]>();
+  private incidentListeners: Array<(conversationId: string, incident: Incident) => void> = [];
+  private lifecycleListeners: Array<(event: SessionLifecycleEvent) => void> = [];
+  /** Supervisor restart times per conversation (crash-loop breaker). */
+  private restartHistory = new Map<string, number[]>();
 
   // Persistence
   private stateDir: string;
   private persisted = new Map<string, PersistedSession>();
+  /** Conversation histories by session ID (stateless backends only), oldest first. */
+  private histories = new Map<string, HistoryMessage[]>();
+  private historiesDirty = false;
+  private readonly historyStore: HistoryStore = {
+    load: (sessionId) => this.histories.get(sessionId),
+    save: (sessionId, messages) => this.saveHistory(sessionId, messages),
+  };
   private saveTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor(config: SessionStoreConfig, logger: Logger, stateDir?: string) {
     this.config = config;
     this.logger = logger;
     this.stateDir = stateDir ?? "";
+    this.approvals = new ApprovalManager(logger);
+    this.ledger = new UsageLedger(this.stateDir ? path.join(this.stateDir, "bridge-usage.jsonl") : "", logger);
+    this.budget = new BudgetGuard(config.budgets, this.ledger, config.prices, logger);
     this.loadFromDisk();
     this.startIdleSweep();
   }
 
+  getBackend(id: Backend): CliBackend | undefined {
+    return this.config.backends.get(id);
+  }
+
   resolveBackend(model?: string): Backend {
-    if (!model) return "claude";
-    if (this.config.codexModels.has(model)) return "codex";
-    if (this.config.geminiModels.has(model)) return "gemini";
-    return "claude";
+    return this.config.backends.resolve(model).id;
   }
 
   /** List all available models with their backend type. */
   listModels(): Array<{ id: string; backend: Backend }> {
-    const models: Array<{ id: string; backend: Backend }> = [
-      { id: "claude-code-cli", backend: "claude" },
-    ];
-    for (const m of this.config.codexModels) {
-      models.push({ id: m, backend: "codex" });
-    }
-    for (const m of this.config.geminiModels) {
-      models.push({ id: m, backend: "gemini" });
-    }
-    return models;
+    return this.config.backends.list().flatMap((b) => b.models().map((id) => ({ id, backend: b.id })));
   }
 
   createSession(conversationId: string, opts?: CreateSessionOpts): SessionEntry {
@@ -105,7 +222,8 @@ export class SessionStore {
 
     const cwd = opts?.cwd ?? this.config.defaultCwd;
     const model = opts?.model;
-    const backend = this.resolveBackend(model);
+    const backendDef = this.config.backends.resolve(model);
+    const backend = backendDef.id;
 
     // Check persisted data for auto-resume
     let resumeId = opts?.resumeSessionId;
@@ -117,38 +235,52 @@ export class SessionStore {
       }
     }
 
-    let proc: CliProcess;
-    if (backend === "codex") {
-      proc = new CodexProcess({
-        codexPath: this.config.codexPath,
-        cwd,
-        model,
-        threadId: resumeId,
-        systemPrompt: this.config.systemPrompt,
-        logger: this.logger,
-      });
-    } else if (backend === "gemini") {
-      proc = new GeminiProcess({
-        geminiPath: this.config.geminiPath,
-        cwd,
-        model,
-        sessionId: resumeId,
-        systemPrompt: this.config.systemPrompt,
-        logger: this.logger,
-      });
-    } else {
-      const processOpts: ClaudeProcessOptions = {
-        claudePath: this.config.claudePath,
-        mcpConfigPath: this.config.mcpConfigPath,
-        systemPrompt: this.config.systemPrompt,
-        cwd,
-        model,
-        resumeSessionId: resumeId,
-        compact: opts?.compact,
-        logger: this.logger,
-        label: conversationId,
-      };
-      proc = new ClaudeProcess(processOpts);
+    // Pooled logins: a resumed session stays on its account, a new one goes to the least-utilized
+    let account: CliAccount | undefined;
+    const pool = backendDef.accounts;
+    if (pool) {
+      const pinned = resumeId ? this.accountOfSession(resumeId) : undefined;
+      account = pool.get(pinned);
+      if (pinned && !account) {
+        this.logger.warn(`session-store: account ${pinned} of ${resumeId!.slice(0, 12)} is no longer configured`);
+      }
+      account ??= pool.pick((name) => this.liveSessionsOn(name));
+    }
+
+    const perms = this.permissionsFor(conversationId);
+    let supervisor: ProcessSupervisor | undefined;
+    const proc = backendDef.create({
+      conversationId,
+      cwd,
+      model,
+      resumeId,
+      account,
+      systemPrompt: [this.config.systemPrompt, opts?.systemPrompt].filter(Boolean).join("\n\n") || undefined,
+      permissions: perms,
+      prices: this.config.prices,
+      history: this.historyStore,
+      mcpServers: opts?.mcpServers,
+      onPermissionRequest: perms.approvals
+        ? (req) => this.approvals.request(conversationId, req, perms.approvalTimeoutMs)
+        : undefined,
+      onExit: (exit) => supervisor?.handleExit(exit),
+      logger: this.logger,
+    });
+    if (isSupervisable(proc)) {
+      let restartTimes = this.restartHistory.get(conversationId);
+      if (!restartTimes) {
+        restartTimes = [];
+        this.restartHistory.set(conversationId, restartTimes);
+      }
+      supervisor = new ProcessSupervisor(
+        proc,
+        this.config.watchdog ?? DEFAULT_WATCHDOG,
+        this.logger,
+        conversationId,
+        restartTimes,
+        (incident) => this.reportIncident(conversationId, incident),
+        opts?.awaitingClient,
+      );
     }
     proc.start();
 
@@ -158,25 +290,67 @@ export class SessionStore {
       lastActivity: Date.now(),
       cwd,
       model,
+      toolsHash: backendDef.clientTools ? opts?.toolsHash : undefined,
+      systemPrompt: opts?.systemPrompt,
+      supervisor,
+      account: account?.name,
     };
 
     this.sessions.set(conversationId, entry);
-    this.logger.info(`session-store: created ${backend} session for ${conversationId} cwd=${cwd} model=${model ?? "default"}`);
+    this.logger.info(
+      `session-store: created ${backend} session for ${conversationId} cwd=${cwd} model=${model ?? "default"}` +
+      (account ? ` account=${account.name}` : ""),
+    );
+    this.emitLifecycle("created", conversationId, entry);
     return entry;
   }
 
-  async destroySession(conversationId: string): Promise<void> {
+  /** Effective permissions for an agent: its overrides on top of the defaults. */
+  permissionsFor(conversationId: string): AgentPermissions {
+    const perms = this.config.permissions;
+    return mergeAgentConfig(perms?.defaults, perms?.agents?.[conversationId.toLowerCase()]);
+  }
+
+  /** Effective auto-compaction policy of an agent (defaults merged with its overrides). */
+  autoCompactFor(conversationId: string): AutoCompactPolicy {
+    const autoCompact = this.config.autoCompact;
+    return mergeAgentConfig(autoCompact?.defaults, autoCompact?.agents?.[conversationId.toLowerCase()]);
+  }
+
+  /** Whether an idle session's context has crossed its agent's auto-compaction threshold. */
+  compactionDue(conversationId: string): boolean {
     const entry = this.sessions.get(conversationId);
-    if (!entry) return;
+    if (!entry?.process.compact) return false;
+    if (!entry.process.isAlive() || entry.process.isBusy()) return false;
+    return isCompactionDue(entry.process.getContext(), this.autoCompactFor(conversationId));
+  }
 
-    const sid = entry.process.getSessionId();
-    if (sid) {
-      this.deadSessionIds.set(sid, { sessionId: sid, cwd: entry.cwd, model: entry.model, backend: entry.backend });
+  /** Compact a session in place; auto compactions use the agent's configured instructions. */
+  async compactSession(
+    conversationId: string,
+    trigger: CompactionRecord["trigger"],
+    instructions = this.autoCompactFor(conversationId).instructions,
+  ): Promise<CompactionRecord> {
+    const entry = this.sessions.get(conversationId);
+    if (!entry?.process.compact || !entry.process.isAlive()) {
+      throw new Error(`No running session that can compact for ${conversationId}`);
     }
+    entry.lastActivity = Date.now();
+    const record = await entry.process.compact(trigger, instructions);
+    this.logger.info(`session-store: compacted ${conversationId} (${trigger}) from ${record.beforeTokens} tokens`);
+    return record;
+  }
 
-    await entry.process.stop();
+  async destroySession(conversationId: string): Promise<void> {
+    const entry = this.sessions.get(conversationId);
+    if (!entry) return;
+
+    this.rememberDead(conversationId, entry);
+    this.approvals.cancelAll(conversationId, "Session stopped");
+    await this.stopEntry(entry);
     this.sessions.delete(conversationId);
     this.logger.info(`session-store: destroyed session for ${conversationId}`);
+    this.emitLifecycle("destroyed", conversationId, entry);
   }
 
   getSession(conversationId: string): SessionEntry | undefined {
@@ -193,6 +367,11 @@ export class SessionStore {
     return this.convToAgent.get(conversationId);
   }
 
+  /** Conversations mapped to an agent (those its session serves). */
+  conversationsOf(agentName: string): string[] {
+    return [...this.convToAgent].filter(([, agent]) => agent === agentName).map(([conv]) => conv);
+  }
+
   getLastSessionId(conversationId: string): string | undefined {
     const entry = this.sessions.get(conversationId);
     if (entry) {
@@ -201,10 +380,23 @@ export class SessionStore {
     return undefined;
   }
 
-  getDeadSession(sessionId: string): { sessionId: string; cwd: string; model?: string; backend: Backend } | undefined {
+  getDeadSession(sessionId: string): DeadSession | undefined {
     return this.deadSessionIds.get(sessionId);
   }
 
+  /** Session IDs a session key owns: its live one, its persisted one and the ones it left behind. */
+  sessionIdsOf(conversationId: string): string[] {
+    const ids = new Set<string>();
+    const live = this.getLastSessionId(conversationId);
+    if (live) ids.add(live);
+    const saved = this.persisted.get(conversationId)?.sessionId;
+    if (saved) ids.add(saved);
+    for (const dead of this.deadSessionIds.values()) {
+      if (dead.owner === conversationId) ids.add(dead.sessionId);
+    }
+    return [...ids];
+  }
+
   async resumeSession(conversationId: string, sessionId?: string): Promise<SessionEntry | null> {
     const sid = sessionId ?? this.getLastSessionId(conversationId);
     if (!sid) return null;
@@ -223,12 +415,20 @@ export class SessionStore {
   }
 
   /** Persist session data after a successful sendMessage. */
-  persistSession(conversationId: string, sessionId: string, backend: Backend, model: string | undefined, cwd: string): void {
+  persistSession(
+    conversationId: string,
+    sessionId: string,
+    backend: Backend,
+    model: string | undefined,
+    cwd: string,
+    account?: string,
+  ): void {
     this.persisted.set(conversationId, {
       sessionId,
       backend,
       model: model ?? "",
       cwd,
+      ...(account ? { account } : {}),
       updatedAt: new Date().toISOString(),
     });
     this.scheduleSave();
@@ -241,41 +441,120 @@ export class SessionStore {
     }
   }
 
-  listSessions(): Array<{
-    conversationId: string;
-    sessionId: string;
-    alive: boolean;
-    backend: Backend;
-    cwd: string;
-    model?: string;
-    lastActivity: number;
-    cost: number;
-  }> {
-    const result: Array<{
-      conversationId: string;
-      sessionId: string;
-      alive: boolean;
-      backend: Backend;
-      cwd: string;
-      model?: string;
-      lastActivity: number;
-      cost: number;
-    }> = [];
-
-    for (const [convId, entry] of this.sessions) {
-      const sid = entry.process.getSessionId();
-      if (sid) {
-        result.push({
-          conversationId: convId,
-          sessionId: sid,
-          alive: entry.process.isAlive(),
-          backend: entry.backend,
-          cwd: entry.cwd,
-          model: entry.model,
-          lastActivity: entry.lastActivity,
-          cost: entry.process.getTotalCost(),
-        });
-      }
+  /** Summary of one live session (also when it has no session ID yet). */
+  describeSession(conversationId: string): SessionSummary | undefined {
+    const entry = this.sessions.get(conversationId);
+    if (!entry) return undefined;
+    return {
+      conversationId,
+      sessionId: entry.process.getSessionId(),
+      alive: entry.process.isAlive(),
+      busy: entry.process.isBusy(),
+      backend: entry.backend,
+      cwd: entry.cwd,
+      model: entry.model,
+      lastActivity: entry.lastActivity,
+      cost: entry.process.getTotalCost(),
+      context: entry.process.getContext(),
+      lastCompaction: entry.process.getLastCompaction?.(),
+      account: entry.account,
+    };
+  }
+
+  /** Fold a session's latest rate-limit windows and a turn's cost into its pool account. */
+  recordAccountUsage(conversationId: string, costUsd?: number): void {
+    const entry = this.sessions.get(conversationId);
+    if (!entry?.account) return;
+    this.getBackend(entry.backend)?.accounts?.record(entry.account, entry.process.getRateLimits?.(), costUsd);
+  }
+
+  /** Accounts of every pooled backend with their limits, spend and live sessions. */
+  listAccounts(): AccountStatus[] {
+    return this.config.backends.list().flatMap((b) => b.accounts?.list((name) => this.liveSessionsOn(name)) ?? []);
+  }
+
+  /** Status of the account a session is pinned to. */
+  accountStatus(conversationId: string): AccountStatus | undefined {
+    const account = this.sessions.get(conversationId)?.account;
+    return account ? this.listAccounts().find((a) => a.name === account) : undefined;
+  }
+
+  /**
+   * Add a message to a session's running turn. Returns false when there is
+   * no such turn or the backend cannot take input mid-run.
+   */
+  injectMessage(conversationId: string, text: string, attachments: Attachment[] = []): boolean {
+    const entry = this.sessions.get(conversationId);
+    if (!entry?.process.injectMessage) return false;
+    if (!entry.process.injectMessage(text, attachments)) return false;
+    entry.lastActivity = Date.now();
+    return true;
+  }
+
+  /**
+   * Stop a session's running turn. Backends that can interrupt in place
+   * (Claude) resolve with the partial result; the others are killed and
+   * report nothing. Resolves with null when there was nothing to report.
+   */
+  async interruptTurn(conversationId: string): Promise<SendMessageResult | null> {
+    const entry = this.sessions.get(conversationId);
+    if (!entry?.process.isBusy()) return null;
+    if (entry.process.interrupt) return entry.process.interrupt();
+    entry.process.abortTurn();
+    return null;
+  }
+
+  /** Subscribe to supervisor incidents (crash/stall recoveries) of any session. */
+  onIncident(listener: (conversationId: string, incident: Incident) => void): void {
+    this.incidentListeners.push(listener);
+  }
+
+  /** Subscribe to sessions being created and ending (destroyed, evicted, idle timeout). */
+  onLifecycle(listener: (event: SessionLifecycleEvent) => void): void {
+    this.lifecycleListeners.push(listener);
+  }
+
+  /** Incidents since the conversation's last turn; clears them. */
+  takeIncidents(conversationId: string): Incident[] {
+    const pending = this.incidents.get(conversationId) ?? [];
+    this.incidents.delete(conversationId);
+    return pending;
+  }
+
+  private reportIncident(conversationId: string, incident: Incident): void {
+    const pending = this.incidents.get(conversationId) ?? [];
+    pending.push(incident);
+    this.incidents.set(conversationId, pending);
+    for (const listener of this.incidentListeners) listener(conversationId, incident);
+  }
+
+  private emitLifecycle(type: SessionLifecycleEvent["type"], conversationId: string, entry: SessionEntry): void {
+    const event: SessionLifecycleEvent = {
+      type,
+      conversationId,
+      backend: entry.backend,
+      model: entry.model,
+      sessionId: entry.process.getSessionId() || undefined,
+      account: entry.account,
+    };
+    for (const listener of this.lifecycleListeners) listener(event);
+  }
+
+  /** Live (running) sessions vs the configured `maxSessions`. */
+  getCapacity(): { live: number; max: number } {
+    let live = 0;
+    for (const entry of this.sessions.values()) {
+      if (entry.process.isAlive()) live++;
+    }
+    return { live, max: this.config.maxSessions };
+  }
+
+  listSessions(): SessionSummary[] {
+    const result: SessionSummary[] = [];
+
+    for (const convId of this.sessions.keys()) {
+      const summary = this.describeSession(convId)!;
+      if (summary.sessionId) result.push(summary);
     }
 
     const activeSids = new Set(result.map((r) => r.sessionId));
@@ -285,11 +564,14 @@ export class SessionStore {
           conversationId: "",
           sessionId: sid,
           alive: false,
+          busy: false,
           backend: info.backend,
           cwd: info.cwd,
           model: info.model,
           lastActivity: 0,
           cost: 0,
+          account: info.account,
+          owner: info.owner,
         });
       }
     }
@@ -303,6 +585,21 @@ export class SessionStore {
     return this.stateDir ? path.join(this.stateDir, "bridge-sessions.json") : "";
   }
 
+  private get historyPath(): string {
+    return this.stateDir ? path.join(this.stateDir, "bridge-history.json") : "";
+  }
+
+  private saveHistory(sessionId: string, messages: HistoryMessage[]): void {
+    this.histories.delete(sessionId);
+    this.histories.set(sessionId, [...messages]);
+    for (const oldest of this.histories.keys()) {
+      if (this.histories.size <= MAX_HISTORIES) break;
+      this.histories.delete(oldest);
+    }
+    this.historiesDirty = true;
+    this.scheduleSave();
+  }
+
   private loadFromDisk(): void {
     const filePath = this.persistPath;
     if (!filePath) return;
@@ -320,6 +617,17 @@ export class SessionStore {
     } catch (err) {
       this.logger.warn(`session-store: failed to load persisted sessions: ${err}`);
     }
+
+    try {
+      if (!existsSync(this.historyPath)) return;
+      const data = JSON.parse(readFileSync(this.historyPath, "utf-8")) as Record<string, HistoryMessage[]>;
+      for (const [sessionId, messages] of Object.entries(data)) {
+        if (Array.isArray(messages)) this.histories.set(sessionId, messages);
+      }
+      this.logger.info(`session-store: loaded ${this.histories.size} conversation histories from disk`);
+    } catch (err) {
+      this.logger.warn(`session-store: failed to load conversation histories: ${err}`);
+    }
   }
 
   private saveToDisk(): void {
@@ -338,6 +646,14 @@ export class SessionStore {
     } catch (err) {
       this.logger.error(`session-store: failed to save persisted sessions: ${err}`);
     }
+
+    if (!this.historiesDirty) return;
+    this.historiesDirty = false;
+    try {
+      writeFileSync(this.historyPath, JSON.stringify(Object.fromEntries(this.histories)) + "\n", "utf-8");
+    } catch (err) {
+      this.logger.error(`session-store: failed to save conversation histories: ${err}`);
+    }
   }
 
   private scheduleSave(): void {
@@ -349,8 +665,43 @@ export class SessionStore {
     this.saveTimer.unref();
   }
 
+  // --- Accounts ---
+
+  /** Account a session ID was created on (live, evicted or persisted). */
+  private accountOfSession(sessionId: string): string | undefined {
+    for (const entry of this.sessions.values()) {
+      if (entry.account && entry.process.getSessionId() === sessionId) return entry.account;
+    }
+    const dead = this.deadSessionIds.get(sessionId);
+    if (dead?.account) return dead.account;
+    for (const saved of this.persisted.values()) {
+      if (saved.sessionId === sessionId) return saved.account;
+    }
+    return undefined;
+  }
+
+  private liveSessionsOn(account: string): number {
+    let count = 0;
+    for (const entry of this.sessions.values()) {
+      if (entry.account === account && entry.process.isAlive()) count++;
+    }
+    return count;
+  }
+
   // --- Eviction ---
 
+  private rememberDead(owner: string, entry: SessionEntry): void {
+    const sid = entry.process.getSessionId();
+    if (sid) {
+      this.deadSessionIds.set(sid, { sessionId: sid, cwd: entry.cwd, model: entry.model, backend: entry.backend, account: entry.account, owner });
+    }
+  }
+
+  private stopEntry(entry: SessionEntry): Promise<void> {
+    entry.supervisor?.dispose();
+    return entry.process.stop();
+  }
+
   private enforceMaxSessions(): void {
     if (this.sessions.size < this.config.maxSessions) return;
 
@@ -367,12 +718,10 @@ export class SessionStore {
     if (oldestKey) {
       this.logger.info(`session-store: evicting idle session ${oldestKey} to make room`);
       const entry = this.sessions.get(oldestKey)!;
-      const sid = entry.process.getSessionId();
-      if (sid) {
-        this.deadSessionIds.set(sid, { sessionId: sid, cwd: entry.cwd, model: entry.model, backend: entry.backend });
-      }
-      entry.process.stop().catch(() => {});
+      this.rememberDead(oldestKey, entry);
+      this.stopEntry(entry).catch(() => {});
       this.sessions.delete(oldestKey);
+      this.emitLifecycle("evicted", oldestKey, entry);
     }
   }
 
@@ -382,12 +731,10 @@ export class SessionStore {
       for (const [key, entry] of this.sessions) {
         if (!entry.process.isBusy() && now - entry.lastActivity > this.config.idleTimeoutMs) {
           this.logger.info(`session-store: idle timeout for ${key}`);
-          const sid = entry.process.getSessionId();
-          if (sid) {
-            this.deadSessionIds.set(sid, { sessionId: sid, cwd: entry.cwd, model: entry.model, backend: entry.backend });
-          }
-          entry.process.stop().catch(() => {});
+          this.rememberDead(key, entry);
+          this.stopEntry(entry).catch(() => {});
           this.sessions.delete(key);
+          this.emitLifecycle("idle_timeout", key, entry);
         }
       }
     }, 60_000);
@@ -405,7 +752,7 @@ export class SessionStore {
       clearInterval(this.idleTimer);
       this.idleTimer = null;
     }
-    const stops = Array.from(this.sessions.values()).map((e) => e.process.stop());
+    const stops = Array.from(this.sessions.values()).map((e) => this.stopEntry(e));
     await Promise.allSettled(stops);
     this.sessions.clear();
     this.logger.info("session-store: all sessions stopped");
@@ -0,0 +1,312 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+
+type Logger = {
+  info: (msg: string) => void;
+  warn: (msg: string) => void;
+  error: (msg: string) => void;
+};
+
+export type OpenAiTool = {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+  };
+};
+
+export type OpenAiToolChoice =
+  | "none"
+  | "auto"
+  | "required"
+  | { type: "function"; function: { name: string } };
+
+export type ToolCall = {
+  id: string;
+  name: string;
+  /** JSON-encoded arguments, as OpenAI clients expect them. */
+  arguments: string;
+};
+
+/** MCP server name the client tools are exposed under (Claude sees `mcp__client__<name>`). */
+export const CLIENT_MCP_SERVER = "client";
+
+const MCP_PROTOCOL_VERSION = "2025-03-26";
+/** Window for collecting parallel tool calls into one `tool_calls` response. */
+const CALL_SETTLE_MS = 100;
+
+type JsonRpcMessage = {
+  jsonrpc: "2.0";
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+};
+
+type PendingCall = ToolCall & {
+  respond: (text: string, isError: boolean) => void;
+};
+
+type ToolSession = {
+  token: string;
+  tools: OpenAiTool[];
+  hash: string;
+  /** True while a tool-capable request is driving the session's turn. */
+  active: boolean;
+  /** Calls handed to the client, waiting for `role: "tool"` results. */
+  pending: Map<string, PendingCall>;
+  /** Calls received from the CLI that the bridge has not emitted yet. */
+  unclaimed: PendingCall[];
+  wake: (() => void) | null;
+};
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString()));
+    req.on("error", reject);
+  });
+}
+
+export function hashTools(tools: OpenAiTool[]): string {
+  return createHash("sha256").update(JSON.stringify(tools)).digest("hex").slice(0, 12);
+}
+
+/** Extra instruction appended to the turn when the client forces tool use. */
+export function toolChoiceHint(choice: OpenAiToolChoice | undefined): string | undefined {
+  if (choice === "required") {
+    return `(You must call one of the \`mcp__${CLIENT_MCP_SERVER}__*\` tools before answering.)`;
+  }
+  if (choice && typeof choice === "object" && choice.function?.name) {
+    return `(You must call the \`mcp__${CLIENT_MCP_SERVER}__${choice.function.name}\` tool before answering.)`;
+  }
+  return undefined;
+}
+
+/**
+ * Exposes OpenAI-style client tool definitions to Claude CLI sessions as an
+ * MCP server hosted by the bridge itself (streamable HTTP, JSON responses).
+ *
+ * A `tools/call` from the CLI is held open until the OpenAI client posts the
+ * matching `role: "tool"` message, so the turn pauses instead of failing.
+ */
+export class ToolBridge {
+  private sessions = new Map<string, ToolSession>();
+  private byToken = new Map<string, string>();
+  private baseUrl: string;
+  private logger: Logger;
+
+  constructor(baseUrl: string, logger: Logger) {
+    this.baseUrl = baseUrl;
+    this.logger = logger;
+  }
+
+  /** Register the client tool set for a session. Returns a hash of the definitions. */
+  register(key: string, tools: OpenAiTool[]): string {
+    let session = this.sessions.get(key);
+    if (!session) {
+      const token = randomBytes(16).toString("hex");
+      session = { token, tools, hash: "", active: false, pending: new Map(), unclaimed: [], wake: null };
+      this.sessions.set(key, session);
+      this.byToken.set(token, key);
+    }
+    session.tools = tools;
+    session.hash = hashTools(tools);
+    return session.hash;
+  }
+
+  /** MCP server entry to merge into the CLI's `--mcp-config`. */
+  mcpServers(key: string): Record<string, unknown> {
+    const session = this.sessions.get(key);
+    if (!session) return {};
+    return { [CLIENT_MCP_SERVER]: { type: "http", url: `${this.baseUrl}/${session.token}` } };
+  }
+
+  beginTurn(key: string): void {
+    const session = this.sessions.get(key);
+    if (session) session.active = true;
+  }
+
+  /** Stop accepting calls for the turn; anything still unanswered gets an error result. */
+  endTurn(key: string): void {
+    const session = this.sessions.get(key);
+    if (!session) return;
+    session.active = false;
+    session.wake = null;
+    for (const call of [...session.unclaimed, ...session.pending.values()]) {
+      call.respond("The client did not return a result for this tool call.", true);
+    }
+    session.unclaimed = [];
+    session.pending.clear();
+  }
+
+  /**
+   * Wait for the next batch of tool calls from the CLI.
+   * `cancel()` detaches the waiter (e.g. when the turn finished first).
+   */
+  nextCalls(key: string): { calls: Promise<ToolCall[]>; cancel: () => void } {
+    const session = this.sessions.get(key);
+    let cancelled = false;
+    let settleTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const calls = new Promise<ToolCall[]>((resolve) => {
+      if (!session) return;
+      const claim = () => {
+        settleTimer = setTimeout(() => {
+          if (cancelled) return;
+          const batch = session.unclaimed.splice(0);
+          for (const call of batch) session.pending.set(call.id, call);
+          resolve(batch.map(({ id, name, arguments: args }) => ({ id, name, arguments: args })));
+        }, CALL_SETTLE_MS);
+      };
+      if (session.unclaimed.length > 0) {
+        claim();
+      } else {
+        session.wake = () => {
+          session.wake = null;
+          claim();
+        };
+      }
+    });
+
+    return {
+      calls,
+      cancel: () => {
+        cancelled = true;
+        if (settleTimer) clearTimeout(settleTimer);
+        if (session && session.wake) session.wake = null;
+      },
+    };
+  }
+
+  /** Whether a tool call of the session is with the client (or about to be) and has no result yet. */
+  isAwaitingClient(key: string): boolean {
+    const session = this.sessions.get(key);
+    return !!session && (session.pending.size > 0 || session.unclaimed.length > 0);
+  }
+
+  /** Deliver a client's tool result to the waiting CLI call. */
+  resolveCall(key: string, callId: string, content: string, isError = false): boolean {
+    const call = this.sessions.get(key)?.pending.get(callId);
+    if (!call) return false;
+    call.respond(content, isError);
+    return true;
+  }
+
+  /** Handle a request on `<baseUrl>/<token>` (MCP streamable HTTP transport). */
+  async handleRequest(token: string, req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const key = this.byToken.get(token);
+    if (!key) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (req.method !== "POST") {
+      // No server-initiated stream; clients fall back to request/response
+      res.writeHead(405, { Allow: "POST" }).end();
+      return;
+    }
+
+    let parsed: JsonRpcMessage | JsonRpcMessage[];
+    try {
+      parsed = JSON.parse(await readBody(req)) as JsonRpcMessage | JsonRpcMessage[];
+    } catch {
+      sendJson(res, 400, rpcError(null, -32700, "Parse error"));
+      return;
+    }
+
+    const messages = Array.isArray(parsed) ? parsed : [parsed];
+    const replies = (await Promise.all(messages.map((m) => this.dispatch(key, m, res)))).filter(
+      (r): r is Record<string, unknown> => r !== null,
+    );
+
+    if (replies.length === 0) {
+      res.writeHead(202).end();
+      return;
+    }
+    sendJson(res, 200, Array.isArray(parsed) ? replies : replies[0]);
+  }
+
+  private async dispatch(key: string, msg: JsonRpcMessage, res: ServerResponse): Promise<Record<string, unknown> | null> {
+    // Notifications carry no id and expect no reply
+    if (msg.id === undefined || msg.id === null) return null;
+
+    const session = this.sessions.get(key)!;
+    switch (msg.method) {
+      case "initialize":
+        return rpcResult(msg.id, {
+          protocolVersion: typeof msg.params?.protocolVersion === "string" ? msg.params.protocolVersion : MCP_PROTOCOL_VERSION,
+          capabilities: { tools: {} },
+          serverInfo: { name: "openclaw-client-tools", version: "1.0.0" },
+        });
+      case "ping":
+        return rpcResult(msg.id, {});
+      case "tools/list":
+        return rpcResult(msg.id, {
+          tools: session.tools.map((t) => ({
+            name: t.function.name,
+            description: t.function.description ?? "",
+            inputSchema: t.function.parameters ?? { type: "object", properties: {} },
+          })),
+        });
+      case "tools/call":
+        return rpcResult(msg.id, await this.callTool(key, session, msg.params ?? {}, res));
+      default:
+        return rpcError(msg.id, -32601, `Method not found: ${msg.method}`);
+    }
+  }
+
+  private callTool(
+    key: string,
+    session: ToolSession,
+    params: Record<string, unknown>,
+    res: ServerResponse,
+  ): Promise<Record<string, unknown>> {
+    const name = String(params.name ?? "");
+    const toResult = (text: string, isError: boolean) => ({ content: [{ type: "text", text }], isError });
+
+    if (!session.active) {
+      this.logger.warn(`tool-bridge: ${key} called ${name} with no client attached`);
+      return Promise.resolve(toResult("Client tools are not available for this request.", true));
+    }
+
+    return new Promise((resolve) => {
+      const call: PendingCall = {
+        id: `call_${randomUUID().replace(/-/g, "").slice(0, 24)}`,
+        name,
+        arguments: JSON.stringify(params.arguments ?? {}),
+        respond: (text, isError) => {
+          session.pending.delete(call.id);
+          resolve(toResult(text, isError));
+        },
+      };
+      // CLI gave up on the call (turn interrupted) — forget it
+      res.once("close", () => {
+        if (res.writableEnded) return;
+        const idx = session.unclaimed.indexOf(call);
+        if (idx !== -1) session.unclaimed.splice(idx, 1);
+        session.pending.delete(call.id);
+      });
+      this.logger.info(`tool-bridge: ${key} → client tool ${name} id=${call.id}`);
+      session.unclaimed.push(call);
+      session.wake?.();
+    });
+  }
+}
+
+function rpcResult(id: string | number, result: unknown): Record<string, unknown> {
+  return { jsonrpc: "2.0", id, result };
+}
+
+function rpcError(id: string | number | null, code: number, message: string): Record<string, unknown> {
+  return { jsonrpc: "2.0", id, error: { code, message } };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Content-Length": Buffer.byteLength(payload),
+  });
+  res.end(payload);
+}
@@ -0,0 +1,349 @@
+import { randomUUID } from "node:crypto";
+import type { ProgressHooks } from "./progress-events.js";
+import { INLINE_IMAGE_TYPES, describeAttachments, type Attachment } from "./attachments.js";
+import type { ContextUsage, SendMessageResult, TurnUsage } from "./claude-process.js";
+import type { CliBackend, CliProcess, HistoryMessage, HistoryStore } from "./backend-registry.js";
+import { computeCost, priceFor, type PriceTable } from "./pricing.js";
+
+type Logger = {
+  info: (msg: string) => void;
+  warn: (msg: string) => void;
+  error: (msg: string) => void;
+};
+
+export type UpstreamProcessOptions = {
+  /** Base URL of the OpenAI-compatible API, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  apiKey?: string;
+  cwd?: string;
+  model?: string;
+  sessionId?: string;
+  systemPrompt?: string;
+  history: HistoryStore;
+  prices?: PriceTable;
+  logger: Logger;
+};
+
+// --- Chat-completions stream chunk ---
+
+type ChatChunk = {
+  choices?: Array<{
+    delta?: { content?: string | null; reasoning_content?: string | null; reasoning?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+  } | null;
+  error?: { message?: string };
+};
+
+type ContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+/** The user message sent upstream; supported images go inline as data URLs. */
+function userContent(text: string, attachments: Attachment[]): string | ContentPart[] {
+  const images = attachments.filter((a) => a.kind === "image" && INLINE_IMAGE_TYPES.has(a.mediaType));
+  const prompt = text + describeAttachments(attachments.filter((a) => !images.includes(a)));
+  if (images.length === 0) return prompt;
+  return [
+    ...(prompt ? [{ type: "text" as const, text: prompt }] : []),
+    ...images.map((a) => ({
+      type: "image_url" as const,
+      image_url: { url: `data:${a.mediaType};base64,${a.data.toString("base64")}` },
+    })),
+  ];
+}
+
+/** Most stored messages replayed with a request. */
+const MAX_REPLAYED_MESSAGES = 40;
+/** Rough characters per token, for fitting the replay into the model's context window. */
+const CHARS_PER_TOKEN = 4;
+/** Share of the context window left free for the reply. */
+const REPLY_RESERVE = 0.25;
+
+/**
+ * The tail of the stored history to replay: at most MAX_REPLAYED_MESSAGES
+ * and, when the context window is known, what fits in it next to `reservedChars`
+ * (system prompt and new message). Whole user/assistant exchanges are dropped
+ * from the front, so the replay always starts with a user message.
+ */
+function replayedHistory(messages: HistoryMessage[], contextWindow: number | undefined, reservedChars: number): HistoryMessage[] {
+  let start = Math.max(0, messages.length - MAX_REPLAYED_MESSAGES);
+  while (start < messages.length && messages[start].role !== "user") start++;
+  if (contextWindow) {
+    const budget = contextWindow * (1 - REPLY_RESERVE) * CHARS_PER_TOKEN - reservedChars;
+    let chars = messages.slice(start).reduce((n, m) => n + m.content.length, 0);
+    while (start < messages.length && chars > budget) {
+      chars -= messages[start].content.length;
+      start++;
+      while (start < messages.length && messages[start].role !== "user") {
+        chars -= messages[start].content.length;
+        start++;
+      }
+    }
+  }
+  return messages.slice(start);
+}
+
+/** Text-only form of a user message for the stored history (images are not replayed). */
+function historyContent(text: string, attachments: Attachment[]): string {
+  return text + describeAttachments(attachments);
+}
+
+/**
+ * Session on an OpenAI-compatible chat-completions endpoint (Ollama,
+ * llama.cpp, vLLM, ...).
+ *
+ * The endpoint keeps no state, so the conversation lives in the session
+ * store's HistoryStore under a session ID minted on the first turn. Each
+ * request replays its most recent part (see replayedHistory). No tools: the
+ * model only chats.
+ */
+export class UpstreamProcess implements CliProcess {
+  private opts: UpstreamProcessOptions;
+  private sid: string | null;
+  private messages: HistoryMessage[];
+  private controller: AbortController | null = null;
+  private stopped = false;
+  private totalCost = 0;
+  private lastContext: ContextUsage | undefined;
+
+  constructor(opts: UpstreamProcessOptions) {
+    this.opts = opts;
+    const saved = opts.sessionId ? opts.history.load(opts.sessionId) : undefined;
+    if (opts.sessionId && !saved) {
+      opts.logger.warn(`upstream-process: no stored history for ${opts.sessionId.slice(0, 12)}, starting fresh`);
+    }
+    this.sid = saved ? opts.sessionId! : null;
+    this.messages = saved ? [...saved] : [];
+  }
+
+  start(): void {}
+
+  async sendMessage(
+    text: string,
+    onText?: (text: string) => void,
+    hooks?: ProgressHooks,
+    attachments: Attachment[] = [],
+  ): Promise<SendMessageResult> {
+    if (this.stopped) {
+      throw new Error("UpstreamProcess has been stopped");
+    }
+    if (this.controller) {
+      throw new Error("Another message is already in-flight");
+    }
+
+    const log = this.opts.logger;
+    const controller = new AbortController();
+    this.controller = controller;
+    this.sid ??= randomUUID();
+    const startedAt = Date.now();
+
+    const price = priceFor(this.opts.prices ?? {}, this.opts.model);
+    const history = replayedHistory(
+      this.messages,
+      price?.contextWindow,
+      (this.opts.systemPrompt?.length ?? 0) + historyContent(text, attachments).length,
+    );
+    const messages = [
+      ...(this.opts.systemPrompt ? [{ role: "system", content: this.opts.systemPrompt }] : []),
+      ...history,
+      { role: "user", content: userContent(text, attachments) },
+    ];
+    log.info(
+      `upstream-process: request sid=${this.sid.slice(0, 12)} model=${this.opts.model ?? "default"} ` +
+      `history=${history.length}/${this.messages.length} prompt=${text.length}chars`,
+    );
+
+    try {
+      const res = await fetch(`${this.opts.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.opts.apiKey ? { Authorization: `Bearer ${this.opts.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: this.opts.model,
+          messages,
+          stream: true,
+          stream_options: { include_usage: true },
+        }),
+        signal: controller.signal,
+      });
+      if (!res.ok || !res.body) {
+        const body = await res.text().catch(() => "");
+        throw new Error(`Upstream failed (HTTP ${res.status}):\n${body.slice(0, 500) || "no body"}`);
+      }
+
+      const { reply, usage: rawUsage } = await this.readStream(res.body, onText, hooks);
+
+      this.messages.push(
+        { role: "user", content: historyContent(text, attachments) },
+        { role: "assistant", content: reply },
+      );
+      this.opts.history.save(this.sid, this.messages);
+
+      let usage: TurnUsage | undefined;
+      let costUsd: number | undefined;
+      if (rawUsage) {
+        const cached = rawUsage.prompt_tokens_details?.cached_tokens ?? 0;
+        usage = {
+          input_tokens: rawUsage.prompt_tokens - cached,
+          output_tokens: rawUsage.completion_tokens,
+          cache_read_input_tokens: cached,
+        };
+        this.lastContext = { contextTokens: rawUsage.prompt_tokens, contextWindow: price?.contextWindow };
+        if (price) {
+          costUsd = computeCost(usage, price);
+          this.totalCost += costUsd;
+        }
+      }
+
+      log.info(
+        `upstream-process: turn complete sid=${this.sid.slice(0, 12)} textLen=${reply.length}` +
+        (usage ? ` in=${rawUsage!.prompt_tokens} out=${usage.output_tokens}` : ""),
+      );
+
+      return {
+        text: reply || "Done.",
+        sessionId: this.sid,
+        usage,
+        costUsd,
+        durationMs: Date.now() - startedAt,
+        context: this.lastContext,
+      };
+    } catch (err) {
+      if (controller.signal.aborted) throw new Error("Turn aborted by user");
+      throw err;
+    } finally {
+      this.controller = null;
+    }
+  }
+
+  isAlive(): boolean {
+    return !this.stopped;
+  }
+
+  isBusy(): boolean {
+    return this.controller !== null;
+  }
+
+  abortTurn(): void {
+    this.controller?.abort();
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.abortTurn();
+  }
+
+  async restart(): Promise<void> {
+    this.stopped = false;
+  }
+
+  getSessionId(): string {
+    return this.sid ?? "";
+  }
+
+  getTotalCost(): number {
+    return this.totalCost;
+  }
+
+  getContext(): ContextUsage | undefined {
+    return this.lastContext;
+  }
+
+  getCwd(): string | undefined {
+    return this.opts.cwd;
+  }
+
+  getModel(): string | undefined {
+    return this.opts.model;
+  }
+
+  // --- Internal ---
+
+  /** Read an SSE chat-completions stream, forwarding prose and reasoning as it arrives. */
+  private async readStream(
+    body: ReadableStream<Uint8Array>,
+    onText: ((text: string) => void) | undefined,
+    hooks?: ProgressHooks,
+  ): Promise<{ reply: string; usage: ChatChunk["usage"] }> {
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let reply = "";
+    let usage: ChatChunk["usage"];
+
+    const handleLine = (line: string): void => {
+      if (!line.startsWith("data:")) return;
+      const data = line.slice(5).trim();
+      if (!data || data === "[DONE]") return;
+
+      let chunk: ChatChunk;
+      try {
+        chunk = JSON.parse(data) as ChatChunk;
+      } catch {
+        return; // skip malformed lines
+      }
+      if (chunk.error) throw new Error(chunk.error.message ?? "Upstream stream error");
+      if (chunk.usage) usage = chunk.usage;
+
+      const delta = chunk.choices?.[0]?.delta;
+      // Reasoning models served by llama.cpp/vLLM (reasoning_content) or Ollama (reasoning)
+      const reasoning = delta?.reasoning_content ?? delta?.reasoning;
+      if (reasoning) hooks?.onProgress?.({ type: "thinking", text: reasoning });
+      if (delta?.content) {
+        reply += delta.content;
+        onText?.(delta.content);
+      }
+    };
+
+    const reader = body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) !== -1) {
+        handleLine(buffer.slice(0, newline).trim());
+        buffer = buffer.slice(newline + 1);
+      }
+    }
+    handleLine(buffer.trim());
+
+    return { reply, usage };
+  }
+}
+
+export type UpstreamBackendConfig = {
+  baseUrl: string;
+  apiKey?: string;
+  /** Model IDs routed to the upstream (`upstreamModels`), passed through as-is. */
+  models: string[];
+};
+
+export function upstreamBackend(config: UpstreamBackendConfig): CliBackend {
+  const models = new Set(config.models);
+  return {
+    id: "upstream",
+    label: "OpenAI-compatible upstream",
+    shortLabel: "Upstream",
+    vendor: "upstream",
+    models: () => [...models],
+    matchesModel: (model) => models.has(model),
+    create: (opts) => new UpstreamProcess({
+      baseUrl: config.baseUrl,
+      apiKey: config.apiKey,
+      cwd: opts.cwd,
+      model: opts.model,
+      sessionId: opts.resumeId,
+      systemPrompt: opts.systemPrompt,
+      history: opts.history,
+      prices: opts.prices,
+      logger: opts.logger,
+    }),
+  };
+}
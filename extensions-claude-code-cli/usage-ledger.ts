@@ -0,0 +1,228 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import type { SendMessageResult } from "./claude-process.js";
+
+type Logger = {
+  info: (msg: string) => void;
+  warn: (msg: string) => void;
+  error: (msg: string) => void;
+};
+
+export const USAGE_PATH = "/v1/bridge/usage";
+
+/** One completed turn, as appended to the ledger file. */
+export type LedgerEntry = {
+  /** ISO time the turn completed. */
+  at: string;
+  agent: string;
+  /** OpenClaw conversation the turn came from, when the request carried one. */
+  conversationId?: string;
+  backend: string;
+  model: string;
+  account?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+  durationMs?: number;
+  tools: string[];
+  aborted?: boolean;
+};
+
+export type UsagePeriod = "today" | "week" | "month";
+export type UsageGroup = "agent" | "model" | "backend" | "day";
+
+export type UsageTotals = {
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  costUsd: number;
+};
+
+export type UsageQuery = {
+  /** Inclusive lower bound (ms). */
+  since?: number;
+  /** Exclusive upper bound (ms). */
+  until?: number;
+  agent?: string;
+};
+
+/** Start (ms, local time) of the current day, week (from Monday) or month. */
+export function periodStart(period: UsagePeriod, now = new Date()): number {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (period === "week") start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  if (period === "month") start.setDate(1);
+  return start.getTime();
+}
+
+/** Local calendar day of an entry, e.g. "2026-10-19". */
+function localDay(iso: string): string {
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export function sumUsage(entries: LedgerEntry[]): UsageTotals {
+  const totals: UsageTotals = { turns: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, costUsd: 0 };
+  for (const e of entries) {
+    totals.turns++;
+    totals.inputTokens += e.inputTokens;
+    totals.outputTokens += e.outputTokens;
+    totals.cacheReadTokens += e.cacheReadTokens;
+    totals.costUsd += e.costUsd;
+  }
+  return totals;
+}
+
+/** Totals per agent, model, backend or day, most expensive first (days in date order). */
+export function groupUsage(entries: LedgerEntry[], by: UsageGroup): Array<{ key: string } & UsageTotals> {
+  const groups = new Map<string, LedgerEntry[]>();
+  for (const e of entries) {
+    const key = by === "day" ? localDay(e.at) : e[by];
+    groups.set(key, [...(groups.get(key) ?? []), e]);
+  }
+  const rows = [...groups].map(([key, group]) => ({ key, ...sumUsage(group) }));
+  return by === "day"
+    ? rows.sort((a, b) => a.key.localeCompare(b.key))
+    : rows.sort((a, b) => b.costUsd - a.costUsd);
+}
+
+/**
+ * Append-only record of every completed turn (JSON lines under the state
+ * dir), so spend survives evictions, compactions and gateway restarts.
+ * Reports re-read the file; it only grows by one short line per turn.
+ */
+export class UsageLedger {
+  private filePath: string;
+  private logger: Logger;
+
+  /** An empty path keeps the ledger off (no state dir). */
+  constructor(filePath: string, logger: Logger) {
+    this.filePath = filePath;
+    this.logger = logger;
+  }
+
+  get enabled(): boolean {
+    return this.filePath !== "";
+  }
+
+  record(
+    turn: { agent: string; conversationId?: string; backend: string; model: string; account?: string },
+    out: SendMessageResult,
+  ): void {
+    if (!this.filePath) return;
+    const entry: LedgerEntry = {
+      at: new Date().toISOString(),
+      agent: turn.agent,
+      ...(turn.conversationId ? { conversationId: turn.conversationId } : {}),
+      backend: turn.backend,
+      model: turn.model,
+      ...(turn.account ? { account: turn.account } : {}),
+      inputTokens: out.usage?.input_tokens ?? 0,
+      outputTokens: out.usage?.output_tokens ?? 0,
+      cacheReadTokens: out.usage?.cache_read_input_tokens ?? 0,
+      cacheCreationTokens: out.usage?.cache_creation_input_tokens ?? 0,
+      costUsd: out.costUsd ?? 0,
+      ...(out.durationMs !== undefined ? { durationMs: out.durationMs } : {}),
+      tools: out.toolsUsed?.map((t) => t.name) ?? [],
+      ...(out.aborted ? { aborted: true } : {}),
+    };
+
+    try {
+      const dir = path.dirname(this.filePath);
+      if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+      appendFileSync(this.filePath, JSON.stringify(entry) + "\n", "utf-8");
+    } catch (err) {
+      this.logger.error(`usage-ledger: failed to append: ${err}`);
+    }
+  }
+
+  /** Entries in a time range (and of one agent), oldest first. */
+  query(q: UsageQuery = {}): LedgerEntry[] {
+    if (!this.filePath || !existsSync(this.filePath)) return [];
+    let raw: string;
+    try {
+      raw = readFileSync(this.filePath, "utf-8");
+    } catch (err) {
+      this.logger.warn(`usage-ledger: failed to read: ${err}`);
+      return [];
+    }
+
+    const result: LedgerEntry[] = [];
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      let entry: LedgerEntry;
+      try {
+        entry = JSON.parse(line) as LedgerEntry;
+      } catch {
+        continue; // skip a torn last line
+      }
+      const at = Date.parse(entry.at);
+      if (q.since !== undefined && at < q.since) continue;
+      if (q.until !== undefined && at >= q.until) continue;
+      if (q.agent && entry.agent.toLowerCase() !== q.agent.toLowerCase()) continue;
+      result.push(entry);
+    }
+    return result;
+  }
+}
+
+function jsonResponse(res: ServerResponse, status: number, body: unknown): void {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Content-Length": Buffer.byteLength(payload),
+  });
+  res.end(payload);
+}
+
+/** `from`/`to` as a date ("2026-10-01", local midnight) or any Date.parse-able time. */
+function parseTime(value: string | null): number | undefined | null {
+  if (!value) return undefined;
+  const ms = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`).getTime() : Date.parse(value);
+  return Number.isNaN(ms) ? null : ms;
+}
+
+const GROUPS = new Set<UsageGroup>(["agent", "model", "backend", "day"]);
+
+/**
+ * Ledger export for finance reporting. Entries of agents outside the API
+ * key's scope are left out.
+ *
+ *   GET /v1/bridge/usage?from=2026-10-01&to=2026-11-01   entries + totals (`to` exclusive)
+ *   GET /v1/bridge/usage?...&agent=linda                 one agent
+ *   GET /v1/bridge/usage?...&group=agent|model|backend|day  totals per group instead of entries
+ */
+export function handleUsageExport(
+  req: IncomingMessage,
+  res: ServerResponse,
+  ledger: UsageLedger,
+  authorizeAgent: (agent: string) => string | null,
+): void {
+  const error = (status: number, message: string) =>
+    jsonResponse(res, status, { error: { message, type: "invalid_request_error", code: null } });
+  if (req.method !== "GET") return error(405, "Method not allowed");
+  if (!ledger.enabled) return error(404, "Usage ledger is off (no state directory)");
+
+  const url = new URL(req.url ?? "", "http://localhost");
+  const since = parseTime(url.searchParams.get("from"));
+  const until = parseTime(url.searchParams.get("to"));
+  if (since === null || until === null) return error(400, "from/to must be a date (YYYY-MM-DD) or an ISO time");
+  const group = url.searchParams.get("group");
+  if (group && !GROUPS.has(group as UsageGroup)) return error(400, `group must be one of ${[...GROUPS].join(", ")}`);
+
+  const entries = ledger
+    .query({ since, until, agent: url.searchParams.get("agent") ?? undefined })
+    .filter((e) => !authorizeAgent(e.agent));
+
+  jsonResponse(res, 200, {
+    object: "usage",
+    from: since !== undefined ? new Date(since).toISOString() : null,
+    to: until !== undefined ? new Date(until).toISOString() : null,
+    totals: sumUsage(entries),
+    ...(group ? { groups: groupUsage(entries, group as UsageGroup) } : { data: entries }),
+  });
+}